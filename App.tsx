@@ -1,8 +1,14 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { GoogleGenAI } from "@google/genai";
-import { AudioMetadata, LoopBoundaries, ProcessingOptions, DetectionMode, ExportFormat } from './types';
+import { AudioMetadata, LoopBoundaries, RenderStage, ProcessingOptions, DetectionMode, ExportFormat, BitDepth, StretchAlgorithm, ToneMode, ToneSettings, ProgramKeyframe, RampCurve, MixLayer, LayerLoopMode, NoiseColor, LoudnessReport, RecipeTrack, SessionRecipe, CrossfadeCurve, CrossfadeSettings } from './types';
 import { AudioEngine } from './services/audioEngine';
+import { EngineCore } from './services/engineCore';
+import { PitchShifter } from './services/pitchShifter';
+import { NoiseGenerator } from './services/noiseGenerator';
+import { KeyDetector } from './services/keyDetector';
+import { CancelledError } from './services/cancellation';
+import { RecipeFormat } from './services/recipeFormat';
 
 // Visualizer Component using Web Audio API
 const AudioVisualizer: React.FC<{ audioRef: React.RefObject<HTMLAudioElement | null> }> = ({ audioRef }) => {
@@ -163,12 +169,14 @@ const TrackAnalysisCard: React.FC<{
   meta: AudioMetadata; 
   type: 'focus' | 'music';
   boundaries?: LoopBoundaries | null;
+  loopSimilarity?: number;
   onBoundaryUpdate?: (b: LoopBoundaries) => void;
   manualBpm?: number;
   onManualBpmUpdate?: (bpm: number | undefined) => void;
   isAnalyzing?: boolean;
   analysisStatus?: string;
-}> = ({ meta, type, boundaries, onBoundaryUpdate, manualBpm, onManualBpmUpdate, isAnalyzing, analysisStatus }) => {
+  onCancelAnalysis?: () => void;
+}> = ({ meta, type, boundaries, loopSimilarity, onBoundaryUpdate, manualBpm, onManualBpmUpdate, isAnalyzing, analysisStatus, onCancelAnalysis }) => {
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -188,6 +196,9 @@ const TrackAnalysisCard: React.FC<{
         <div className="absolute inset-0 bg-slate-900/90 backdrop-blur-sm z-10 flex flex-col items-center justify-center p-6 text-center">
            <div className="w-10 h-10 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin mb-4"></div>
            <p className="text-xs font-black text-indigo-400 uppercase tracking-widest">{analysisStatus || 'Analyzing...'}</p>
+           {onCancelAnalysis && (
+             <button onClick={onCancelAnalysis} className="mt-4 text-xs font-bold text-slate-500 hover:text-rose-400 uppercase tracking-wider">Cancel</button>
+           )}
         </div>
       )}
       <div className="flex items-center justify-between">
@@ -209,6 +220,18 @@ const TrackAnalysisCard: React.FC<{
           </p>
         </div>
       </div>
+      {type === 'focus' && meta.entrainment?.carriersHz && (
+        <div className="p-3 bg-slate-800/30 rounded-xl border border-slate-700/30 flex justify-between items-center">
+          <div>
+            <p className="text-xs font-bold text-slate-500 uppercase mb-1">Carriers L / R</p>
+            <p className="text-xs mono text-slate-400">{meta.entrainment.carriersHz.map(hz => hz.toFixed(1)).join(' / ')} Hz</p>
+          </div>
+          <div className="text-right">
+            <p className="text-xs font-bold text-slate-500 uppercase mb-1">{meta.entrainment.binauralHz !== undefined ? 'Binaural' : meta.entrainment.modulationHz !== undefined ? 'Pulsed' : 'Steady'}</p>
+            <p className="text-xs mono text-slate-400 uppercase">{meta.entrainment.band ?? 'no beat'}</p>
+          </div>
+        </div>
+      )}
       {type === 'music' && bpmInfo && (
         <div className="space-y-3">
           <div className="p-3 bg-slate-800/30 rounded-xl border border-slate-700/30 flex justify-between items-center">
@@ -218,9 +241,51 @@ const TrackAnalysisCard: React.FC<{
             </div>
             <div className="text-right">
               <p className="text-xs font-bold text-slate-500 uppercase mb-1">Detected</p>
-              <p className="text-xs mono text-slate-400">{bpmInfo.raw} BPM</p>
+              <p className="text-xs mono text-slate-400">{bpmInfo.raw} BPM{bpmInfo.windows ? ` • ${bpmInfo.windows.length} windows` : ''}</p>
             </div>
           </div>
+          {meta.key && (
+            <div className="p-3 bg-slate-800/30 rounded-xl border border-slate-700/30 flex justify-between items-center">
+              <div>
+                <p className="text-xs font-bold text-slate-500 uppercase mb-1">Key</p>
+                <p className="text-xs mono text-slate-400">{meta.key.name} • {Math.round(meta.key.confidence * 100)}%</p>
+              </div>
+              <div className="text-right">
+                <p className="text-xs font-bold text-slate-500 uppercase mb-1">Tuning</p>
+                <p className="text-xs mono text-slate-400">A={meta.key.tuningHz} Hz</p>
+              </div>
+            </div>
+          )}
+          {meta.tempoMap && (
+            <div className="p-3 bg-slate-800/30 rounded-xl border border-slate-700/30 flex justify-between items-center">
+              <div>
+                <p className="text-xs font-bold text-slate-500 uppercase mb-1">Tempo Map</p>
+                <p className="text-xs mono text-slate-400">
+                  {Math.min(...meta.tempoMap.map(p => p.bpm)).toFixed(1)}–{Math.max(...meta.tempoMap.map(p => p.bpm)).toFixed(1)} BPM
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-xs font-bold text-slate-500 uppercase mb-1">Target</p>
+                <p className="text-xs mono text-slate-400">Flattened when set</p>
+              </div>
+            </div>
+          )}
+          {meta.beatGrid && boundaries && (
+            <div className="p-3 bg-slate-800/30 rounded-xl border border-slate-700/30 flex justify-between items-center">
+              <div>
+                <p className="text-xs font-bold text-slate-500 uppercase mb-1">Beat Grid</p>
+                <p className="text-xs mono text-slate-400">{meta.beatGrid.bpm} BPM • {meta.beatGrid.downbeats.length} bars</p>
+              </div>
+              <div className="text-right">
+                <p className="text-xs font-bold text-slate-500 uppercase mb-1">Loop</p>
+                <p className="text-xs mono text-slate-400">
+                  {formatTime(boundaries.introEnd)}–{formatTime(boundaries.outroStart)}
+                  {boundaries.barDuration ? ` • ${Math.round((boundaries.outroStart - boundaries.introEnd) / boundaries.barDuration)} bars` : ''}
+                </p>
+                {loopSimilarity !== undefined && <p className="text-xs mono text-slate-500">Splice match {Math.round(loopSimilarity * 100)}%</p>}
+              </div>
+            </div>
+          )}
           <div className="p-3 bg-slate-800/50 rounded-xl border border-slate-700/30">
             <p className="text-xs font-bold text-slate-500 uppercase mb-2">BPM Override</p>
             <input 
@@ -280,6 +345,50 @@ const FileInput: React.FC<{
   </div>
 );
 
+const LayerRow: React.FC<{
+  layer: MixLayer;
+  name: string;
+  onChange: (patch: Partial<MixLayer>) => void;
+  onRemove: () => void;
+}> = ({ layer, name, onChange, onRemove }) => {
+  const minutes = (v: string) => v === '' ? undefined : parseFloat(v);
+  return (
+    <div className="p-4 bg-slate-900/40 rounded-xl border border-slate-700/30 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm font-semibold text-slate-300 truncate">{name}</p>
+        <div className="flex items-center gap-1.5 shrink-0">
+          <button onClick={() => onChange({ mute: !layer.mute })} className={`w-7 h-7 rounded-md text-xs font-black border ${layer.mute ? 'bg-red-500/20 border-red-500/40 text-red-400' : 'bg-slate-900 border-slate-800 text-slate-500'}`}>M</button>
+          <button onClick={() => onChange({ solo: !layer.solo })} className={`w-7 h-7 rounded-md text-xs font-black border ${layer.solo ? 'bg-amber-500/20 border-amber-500/40 text-amber-400' : 'bg-slate-900 border-slate-800 text-slate-500'}`}>S</button>
+          <button onClick={onRemove} className="w-7 h-7 text-slate-500 hover:text-red-400"><i className="fas fa-times"></i></button>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <div className="flex justify-between mb-1"><span className="text-xs font-bold text-slate-400 uppercase">Gain</span><span className="text-xs text-indigo-400 mono font-bold">{layer.gainDb} dB</span></div>
+          <input type="range" min="-40" max="6" step="1" value={layer.gainDb} onChange={(e) => onChange({ gainDb: parseInt(e.target.value) })} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+        </div>
+        <div>
+          <div className="flex justify-between mb-1"><span className="text-xs font-bold text-slate-400 uppercase">Pan</span><span className="text-xs text-indigo-400 mono font-bold">{(layer.pan ?? 0).toFixed(2)}</span></div>
+          <input type="range" min="-1" max="1" step="0.05" value={layer.pan ?? 0} onChange={(e) => onChange({ pan: parseFloat(e.target.value) })} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+        </div>
+      </div>
+      {layer.noise && (
+        <div>
+          <div className="flex justify-between mb-1"><span className="text-xs font-bold text-slate-400 uppercase">Stereo Width</span><span className="text-xs text-indigo-400 mono font-bold">{Math.round((layer.noise.decorrelation ?? 0.5) * 100)}%</span></div>
+          <input type="range" min="0" max="1" step="0.05" value={layer.noise.decorrelation ?? 0.5} onChange={(e) => onChange({ noise: { ...layer.noise!, decorrelation: parseFloat(e.target.value) } })} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+        </div>
+      )}
+      <div className="grid grid-cols-4 gap-2">
+        {layer.noise ? <div className="col-span-2" /> : (['loop', 'sections'] as LayerLoopMode[]).map(mode => (
+          <button key={mode} onClick={() => onChange({ loopMode: mode })} className={`py-1.5 rounded-lg text-[10px] border font-bold uppercase ${layer.loopMode === mode ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:border-slate-600'}`}>{mode}</button>
+        ))}
+        <input type="number" min="0" placeholder="Start" value={layer.startMinutes ?? ''} onChange={(e) => onChange({ startMinutes: minutes(e.target.value) })} className="bg-slate-900 border border-slate-800 rounded-lg px-2 py-1.5 mono text-xs text-slate-200" title="Start (minutes)" />
+        <input type="number" min="0" placeholder="End" value={layer.endMinutes ?? ''} onChange={(e) => onChange({ endMinutes: minutes(e.target.value) })} className="bg-slate-900 border border-slate-800 rounded-lg px-2 py-1.5 mono text-xs text-slate-200" title="End (minutes)" />
+      </div>
+    </div>
+  );
+};
+
 const TipsSection: React.FC = () => (
   <section className="mt-12 mb-16 space-y-6">
     <div className="flex items-center gap-3">
@@ -343,81 +452,404 @@ const TipsSection: React.FC = () => (
   </section>
 );
 
+const PROGRAM_PRESETS: { label: string; keyframes: (bpm: number) => ProgramKeyframe[] }[] = [
+  {
+    label: 'Wind-Down',
+    keyframes: bpm => [
+      { timeMinutes: 0, beatHz: 18, bpm },
+      { timeMinutes: 20, beatHz: 10, bpm: Math.round(bpm * 0.85), curve: 'exponential' }
+    ]
+  },
+  {
+    label: 'Ramp-Up',
+    keyframes: bpm => [
+      { timeMinutes: 0, beatHz: 10, bpm: Math.round(bpm * 0.9) },
+      { timeMinutes: 15, beatHz: 16, bpm, curve: 'smooth' }
+    ]
+  }
+];
+
+const STAGE_LABELS: Record<RenderStage, string> = {
+  preparing: 'Preparing Layers',
+  measuring: 'Measuring Loudness',
+  rendering: 'Rendering Master'
+};
+
+type CrossfadeTransitions = NonNullable<ProcessingOptions['crossfades']>;
+
+const CROSSFADE_TRANSITIONS: { key: keyof CrossfadeTransitions; label: string }[] = [
+  { key: 'intro', label: 'Intro → Loop' },
+  { key: 'loop', label: 'Loop Repeat' },
+  { key: 'outro', label: 'Loop → Outro' }
+];
+
+// Upper bound of a transition's length, as recipes allow
+const MAX_CROSSFADE_SECONDS = 60;
+
+const CROSSFADE_CURVES: { value: CrossfadeCurve; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'equal_power', label: 'Equal Power' },
+  { value: 's_curve', label: 'S-Curve' },
+  { value: 'logarithmic', label: 'Logarithmic' },
+  { value: 'beat_synced', label: 'Beat Synced' }
+];
+
+// Chromium's File System Access API: renders can stream straight to disk instead of into memory
+const canSaveToFile = typeof window !== 'undefined' && 'showSaveFilePicker' in window;
+
+// How a recipe refers to a loaded track: a generated tone by its settings, a file by its hash
+const recipeTrack = (meta: AudioMetadata): RecipeTrack =>
+  meta.tone ? { tone: meta.tone } : { sha256: meta.sha256, name: meta.name };
+
 const App: React.FC = () => {
   const [focusTrack, setFocusTrack] = useState<AudioMetadata | null>(null);
   const [musicTrack, setMusicTrack] = useState<AudioMetadata | null>(null);
+  // Music played after musicTrack, each under its own track key; recipe entries wait for their file
+  const [playlist, setPlaylist] = useState<{ key: string; track?: AudioMetadata }[]>([]);
+  const [shufflePlaylist, setShufflePlaylist] = useState(false);
   const [targetDuration, setTargetDuration] = useState(60);
   const [musicVolume, setMusicVolume] = useState(0); 
   const [focusVolume, setFocusVolume] = useState(0); 
   const [targetBpm, setTargetBpm] = useState<number | undefined>(undefined);
   const [manualMusicBpm, setManualMusicBpm] = useState<number | undefined>(undefined);
   const [exportFormat, setExportFormat] = useState<ExportFormat>('wav_lossless');
+  const [bitDepth, setBitDepth] = useState<BitDepth>(16);
+  const [noiseShaping, setNoiseShaping] = useState(false);
+  const [stretchAlgorithm, setStretchAlgorithm] = useState<StretchAlgorithm>('wsola');
+  const [pitchCents, setPitchCents] = useState(0);
+  const [retuneHz, setRetuneHz] = useState<number | undefined>(undefined);
+  const [program, setProgram] = useState<ProgramKeyframe[]>([]);
+  const [crossfadeSeconds, setCrossfadeSeconds] = useState(3);
+  const [crossfades, setCrossfades] = useState<CrossfadeTransitions>({});
+  const [extraLayers, setExtraLayers] = useState<{ layer: MixLayer; track?: AudioMetadata }[]>([]);
+  const [toneSettings, setToneSettings] = useState<ToneSettings>({ mode: 'binaural', carrierHz: 200, beatHz: 10, dutyCycle: 0.5, pulseShape: 'sine' });
   const [boundaries, setBoundaries] = useState<LoopBoundaries | null>(null);
+  const [loopSimilarity, setLoopSimilarity] = useState<number | undefined>(undefined);
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [progressStage, setProgressStage] = useState<RenderStage>('preparing');
   const [resultBlob, setResultBlob] = useState<Blob | null>(null);
+  const [savedFileName, setSavedFileName] = useState<string | null>(null);
+  const [loudnessReport, setLoudnessReport] = useState<LoudnessReport | null>(null);
+  const [targetLufs, setTargetLufs] = useState<number | undefined>(-16);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [detectionMode, setDetectionMode] = useState<DetectionMode>('accurate');
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  // Analyses running at once: files can be added while others are still being analysed
+  const [analyses, setAnalyses] = useState(0);
+  const isAnalyzing = analyses > 0;
   const [analysisStatus, setAnalysisStatus] = useState('');
+  // Tracks named by the last recipe loaded, kept until matching files are uploaded
+  const [recipeTracks, setRecipeTracks] = useState<Record<string, RecipeTrack>>({});
+  const [recipeNotice, setRecipeNotice] = useState<string | null>(null);
+  // Set once any recipe in the URL has been applied, so the URL is not rewritten before then
+  const [recipeReady, setRecipeReady] = useState(false);
   
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  // Engine work in progress by what it is for ('focus', 'music', 'render', one per added file);
+  // aborting one stops that work alone
+  const jobsRef = useRef(new Map<string, AbortController>());
+  // Centre of the focus carriers: the pitch the music is retuned against
+  const focusCarrierHz = focusTrack?.entrainment?.carriersHz && (focusTrack.entrainment.carriersHz[0] + focusTrack.entrainment.carriersHz[1]) / 2;
+  const musicShiftCents = pitchCents + (retuneHz ? PitchShifter.retuneCents(retuneHz) : 0);
+  const harmonic = musicTrack?.key && focusCarrierHz ? KeyDetector.compatibility(musicTrack.key, focusCarrierHz, musicShiftCents) : null;
+
+  // Starts the work for `slot`, stopping whatever that slot was still doing
+  const startJob = (slot: string) => {
+    jobsRef.current.get(slot)?.abort();
+    const job = new AbortController();
+    jobsRef.current.set(slot, job);
+    return job.signal;
+  };
+
+  const endJob = (slot: string, signal: AbortSignal) => {
+    if (jobsRef.current.get(slot)?.signal === signal) jobsRef.current.delete(slot);
+  };
+
+  const cancelAnalyses = () => jobsRef.current.forEach((job, slot) => { if (slot !== 'render') job.abort(); });
+  const cancelRender = () => jobsRef.current.get('render')?.abort();
+
+  const reportError = (err: unknown) => {
+    if (!(err instanceof CancelledError)) console.error(err);
+  };
 
   useEffect(() => {
     if (musicTrack && musicTrack.buffer) {
       const reAnalyze = async () => {
-        setIsAnalyzing(true);
-        const bpmInfo = await AudioEngine.analyzeBpm(musicTrack.buffer, detectionMode, setAnalysisStatus);
-        setMusicTrack(prev => prev ? { ...prev, bpmInfo } : null);
-        setIsAnalyzing(false);
+        setAnalyses(n => n + 1);
+        const signal = startJob('music');
+        try {
+          const bpmInfo = await AudioEngine.analyzeBpm(musicTrack.buffer, detectionMode, setAnalysisStatus, signal);
+          const tempoMap = detectionMode === 'tempo_map'
+            ? await AudioEngine.analyzeTempoMap(musicTrack.buffer, musicTrack.beatGrid?.bpm ?? bpmInfo.corrected, bpmInfo.windows, signal)
+            : undefined;
+          setMusicTrack(prev => prev ? { ...prev, bpmInfo, tempoMap } : null);
+        } catch (err) { reportError(err); }
+        endJob('music', signal);
+        setAnalyses(n => n - 1);
       };
       reAnalyze();
     }
   }, [detectionMode]);
 
+  // A recipe in the URL (a shared link, or this session before a reload) is applied on arrival
+  useEffect(() => {
+    RecipeFormat.fromFragment(location.hash)
+      .then(recipe => recipe && applyRecipe(recipe))
+      .catch(err => setRecipeNotice(err instanceof Error ? err.message : String(err)))
+      .finally(() => setRecipeReady(true));
+  }, []);
+
+  // ...and the URL follows the session from then on, so a reload or a copied address restores it
+  useEffect(() => {
+    if (!recipeReady) return;
+    let current = true;
+    RecipeFormat.toFragment(currentRecipe())
+      .then(fragment => {
+        if (current) history.replaceState(null, '', `#${fragment}`);
+      })
+      .catch(err => {
+        if (current) setRecipeNotice(`The address cannot follow this session: ${err instanceof Error ? err.message : String(err)}`);
+      });
+    return () => { current = false; };
+  }, [recipeReady, targetDuration, musicVolume, focusVolume, exportFormat, bitDepth, noiseShaping, targetBpm, program, crossfadeSeconds, crossfades, stretchAlgorithm, pitchCents, retuneHz, manualMusicBpm, targetLufs, boundaries, detectionMode, extraLayers, focusTrack, musicTrack, playlist, shufflePlaylist, recipeTracks]);
+
   const handleFocusUpload = async (file: File) => {
-    setIsAnalyzing(true);
+    setAnalyses(n => n + 1);
     setAnalysisStatus('Decoding Foundation...');
+    const signal = startJob('focus');
     try {
-      const meta = await AudioEngine.decodeFile(file, detectionMode, setAnalysisStatus);
+      const meta = await AudioEngine.decodeFile(file, detectionMode, setAnalysisStatus, signal);
       setFocusTrack(meta);
-    } catch (err) { console.error(err); }
-    setIsAnalyzing(false);
+      checkRecipeTrack('focus', meta);
+    } catch (err) { reportError(err); }
+    endJob('focus', signal);
+    setAnalyses(n => n - 1);
+  };
+
+  const handleGenerateFocus = () => {
+    setFocusTrack(AudioEngine.synthesizeFocus(toneSettings));
   };
 
   const handleMusicUpload = async (file: File) => {
-    setIsAnalyzing(true);
+    setAnalyses(n => n + 1);
     setAnalysisStatus('Decoding Overlay...');
+    const signal = startJob('music');
     try {
-      const meta = await AudioEngine.decodeFile(file, detectionMode, setAnalysisStatus);
+      const meta = await AudioEngine.decodeFile(file, detectionMode, setAnalysisStatus, signal);
       setMusicTrack(meta);
-      setBoundaries(AudioEngine.detectBoundaries(meta.buffer));
-    } catch (err) { console.error(err); }
-    setIsAnalyzing(false);
+      checkRecipeTrack('music', meta);
+      // The recipe's own loop points apply to the file it was made with
+      const expected = recipeTracks.music;
+      if (!boundaries || !expected || 'tone' in expected || expected.sha256 !== meta.sha256) {
+        setAnalysisStatus('Matching Loop Splice...');
+        const match = await AudioEngine.refineLoop(meta.buffer, await AudioEngine.detectBoundaries(meta.buffer, meta.beatGrid, signal), crossfades.loop?.seconds ?? crossfadeSeconds, signal);
+        setBoundaries(match.boundaries);
+        setLoopSimilarity(match.similarity);
+      }
+    } catch (err) { reportError(err); }
+    endJob('music', signal);
+    setAnalyses(n => n - 1);
+  };
+
+  const handlePlaylistUpload = async (file: File) => {
+    setAnalyses(n => n + 1);
+    setAnalysisStatus('Decoding Playlist Track...');
+    const slot = `playlist-${Date.now()}`;
+    const signal = startJob(slot);
+    try {
+      const track = await AudioEngine.decodeFile(file, detectionMode, setAnalysisStatus, signal);
+      const waiting = playlist.find(e => {
+        const ref = !e.track ? recipeTracks[e.key] : undefined;
+        return ref && !('tone' in ref) && ref.sha256 === track.sha256;
+      });
+      if (waiting) {
+        setPlaylist(prev => prev.map(e => e === waiting ? { ...e, track } : e));
+      } else {
+        setPlaylist(prev => [...prev, { key: `music-${Date.now()}`, track }]);
+      }
+    } catch (err) { reportError(err); }
+    endJob(slot, signal);
+    setAnalyses(n => n - 1);
+  };
+
+  const handleLayerUpload = async (file: File) => {
+    setAnalyses(n => n + 1);
+    setAnalysisStatus('Decoding Layer...');
+    const slot = `layer-${Date.now()}`;
+    const signal = startJob(slot);
+    try {
+      const track = await AudioEngine.decodeFile(file, detectionMode, setAnalysisStatus, signal);
+      const waiting = extraLayers.find(e => {
+        const ref = !e.track && e.layer.trackId ? recipeTracks[e.layer.trackId] : undefined;
+        return ref && !('tone' in ref) && ref.sha256 === track.sha256;
+      });
+      if (waiting) {
+        setExtraLayers(prev => prev.map(e => e === waiting ? { ...e, track } : e));
+      } else {
+        const id = `layer-${Date.now()}`;
+        setExtraLayers(prev => [...prev, { track, layer: { id, trackId: id, gainDb: -12, loopMode: 'loop' } }]);
+      }
+    } catch (err) { reportError(err); }
+    endJob(slot, signal);
+    setAnalyses(n => n - 1);
+  };
+
+  const handleAddNoise = (color: NoiseColor) => {
+    const id = `noise-${Date.now()}`;
+    setExtraLayers(prev => [...prev, { layer: { id, noise: { color, decorrelation: 0.5 }, gainDb: -18, loopMode: 'loop' } }]);
   };
 
-  const handleProcess = async () => {
+  const updateLayer = (id: string, patch: Partial<MixLayer>) => {
+    setExtraLayers(prev => prev.map(e => e.layer.id === id ? { ...e, layer: { ...e.layer, ...patch } } : e));
+  };
+
+  const buildOptions = (): ProcessingOptions => ({
+    targetDurationMinutes: targetDuration,
+    musicVolumeDb: musicVolume,
+    focusVolumeDb: focusVolume,
+    exportFormat,
+    bitDepth,
+    noiseShaping,
+    crossfadeDuration: crossfadeSeconds,
+    crossfades,
+    targetBpm,
+    program: program.length ? program : undefined,
+    stretchAlgorithm,
+    pitchShiftCents: pitchCents,
+    retuneReferenceHz: retuneHz,
+    sourceBpmOverride: manualMusicBpm,
+    shufflePlaylist,
+    targetLufs,
+    manualBoundaries: boundaries || undefined
+  });
+
+  const currentRecipe = (): SessionRecipe => {
+    const options = buildOptions();
+    const mix = AudioEngine.pairMix(options, ['music', ...playlist.map(e => e.key)]);
+    mix.layers.push(...extraLayers.map(e => e.layer));
+    const tracks: Record<string, RecipeTrack> = {};
+    const add = (key: string, meta?: AudioMetadata | null) => {
+      const ref = meta ? recipeTrack(meta) : recipeTracks[key];
+      if (ref) tracks[key] = ref;
+    };
+    add('focus', focusTrack);
+    add('music', musicTrack);
+    playlist.forEach(e => add(e.key, e.track));
+    extraLayers.forEach(e => e.layer.trackId && add(e.layer.trackId, e.track));
+    return { version: RecipeFormat.version, tracks, options, mix, detectionMode };
+  };
+
+  const applyRecipe = (recipe: SessionRecipe) => {
+    const o = recipe.options;
+    setTargetDuration(o.targetDurationMinutes);
+    setMusicVolume(o.musicVolumeDb);
+    setFocusVolume(o.focusVolumeDb);
+    setExportFormat(o.exportFormat);
+    setBitDepth(o.bitDepth ?? 16);
+    setNoiseShaping(!!o.noiseShaping);
+    setTargetBpm(o.targetBpm);
+    setProgram(o.program ?? []);
+    setCrossfadeSeconds(o.crossfadeDuration);
+    setCrossfades(o.crossfades ?? {});
+    setStretchAlgorithm(o.stretchAlgorithm ?? 'wsola');
+    setPitchCents(o.pitchShiftCents ?? 0);
+    setRetuneHz(o.retuneReferenceHz);
+    setManualMusicBpm(o.sourceBpmOverride);
+    setShufflePlaylist(!!o.shufflePlaylist);
+    setTargetLufs(o.targetLufs);
+    setBoundaries(o.manualBoundaries ? { ...o.manualBoundaries, detected: false } : null);
+    if (recipe.detectionMode) setDetectionMode(recipe.detectionMode);
+
+    const focus = recipe.tracks.focus;
+    if (focus && 'tone' in focus) {
+      setToneSettings(focus.tone);
+      setFocusTrack(AudioEngine.synthesizeFocus(focus.tone));
+    }
+    // Layers beyond the pair come back without their audio until the same file is uploaded again
+    setExtraLayers((recipe.mix?.layers ?? []).filter(l => l.id !== 'focus' && l.id !== 'music').map(layer => ({ layer })));
+    const music = recipe.mix?.layers.find(l => l.id === 'music');
+    setPlaylist((music?.playlist?.trackIds ?? []).filter(key => key !== 'music').map(key => ({ key })));
+    setRecipeTracks(recipe.tracks);
+
+    const loaded: Record<string, AudioMetadata | null> = { focus: focusTrack, music: musicTrack };
+    const missing = Object.entries(recipe.tracks).flatMap(([key, t]) => 'tone' in t || (t.sha256 && loaded[key]?.sha256 === t.sha256) ? [] : [t.name]);
+    setRecipeNotice(missing.length ? `Recipe loaded. Upload ${missing.join(', ')} to restore its tracks.` : 'Recipe loaded.');
+  };
+
+  // A file that differs from the one the loaded recipe names is used, but flagged
+  const checkRecipeTrack = (key: string, meta: AudioMetadata) => {
+    const expected = recipeTracks[key];
+    if (!expected || 'tone' in expected || !expected.sha256) return;
+    setRecipeNotice(expected.sha256 === meta.sha256 ? null : `${meta.name} is not the ${key} file the recipe was made with (${expected.name}); the session may sound different.`);
+  };
+
+  const handleExportRecipe = () => {
+    const url = URL.createObjectURL(new Blob([RecipeFormat.stringify(currentRecipe())], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `TuneScape_${focusTrack?.name.split('.')[0] ?? 'Session'}.recipe.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportRecipe = async (file: File) => {
+    try {
+      applyRecipe(RecipeFormat.parse(await file.text()));
+    } catch (err) {
+      setRecipeNotice(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleCopyLink = async () => {
+    const url = `${location.href.split('#')[0]}#${await RecipeFormat.toFragment(currentRecipe())}`;
+    await navigator.clipboard.writeText(url);
+    setRecipeNotice('Link copied. It carries every setting; teammates upload the same files to reproduce the session.');
+  };
+
+  const outputName = () => `TuneScape_${focusTrack?.name.split('.')[0]}.${EngineCore.fileExtension(exportFormat)}`;
+
+  const handleProcess = async (toFile = false) => {
     if (!focusTrack || !musicTrack) return;
+    let file: FileSystemFileHandle | undefined;
+    if (toFile) {
+      try {
+        file = await window.showSaveFilePicker({ suggestedName: outputName() });
+      } catch {
+        // The picker was dismissed
+        return;
+      }
+    }
     setIsProcessing(true);
     setProgress(0);
+    setProgressStage('preparing');
+    const signal = startJob('render');
     try {
-      const blob = await AudioEngine.process(focusTrack, musicTrack, {
-        targetDurationMinutes: targetDuration,
-        musicVolumeDb: musicVolume,
-        focusVolumeDb: focusVolume,
-        exportFormat,
-        crossfadeDuration: 3,
-        targetBpm,
-        sourceBpmOverride: manualMusicBpm,
-        manualBoundaries: boundaries || undefined
-      }, (p) => setProgress(p));
+      const options = buildOptions();
+      // Recipe layers and playlist tracks still waiting for their file stay out of the mix
+      const queued = playlist.filter(e => e.track);
+      const mix = AudioEngine.pairMix(options, ['music', ...queued.map(e => e.key)]);
+      mix.layers.push(...extraLayers.filter(e => e.track || !e.layer.trackId).map(e => e.layer));
+      const tracks: Record<string, AudioMetadata> = { focus: focusTrack, music: musicTrack };
+      queued.forEach(e => { tracks[e.key] = e.track!; });
+      extraLayers.forEach(e => { if (e.track && e.layer.trackId) tracks[e.layer.trackId] = e.track; });
+      const sink = file && await file.createWritable();
+      const result = await AudioEngine.mix(tracks, mix, options, (p) => {
+        setProgress(p.overall);
+        setProgressStage(p.stage);
+      }, signal, sink);
       
-      setResultBlob(blob);
-      setPreviewUrl(URL.createObjectURL(blob));
+      setResultBlob(result.blob ?? null);
+      setSavedFileName(file ? file.name : null);
+      setLoudnessReport(result.loudness);
+      setPreviewUrl(result.blob ? URL.createObjectURL(result.blob) : null);
     } catch (err) {
-      console.error(err);
-      alert("Synthesis encountered an error. Please try again.");
+      if (!(err instanceof CancelledError)) {
+        console.error(err);
+        alert("Synthesis encountered an error. Please try again.");
+      }
     } finally {
+      endJob('render', signal);
       setIsProcessing(false);
     }
   };
@@ -443,6 +875,56 @@ const App: React.FC = () => {
                   icon="fa-wind" 
                 />
                 {focusTrack && <TrackAnalysisCard meta={focusTrack} type="focus" />}
+
+                <div className="p-4 bg-slate-900/40 rounded-xl border border-slate-700/30 space-y-4">
+                  <div className="flex justify-between items-center">
+                    <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest">Or Generate Foundation</h3>
+                    <button onClick={handleGenerateFocus} className="px-4 py-1.5 rounded-md text-xs font-bold bg-indigo-600 text-white hover:bg-indigo-500 transition-colors">GENERATE</button>
+                  </div>
+                  <div className="grid grid-cols-3 gap-3">
+                    {(['binaural', 'isochronic', 'monaural'] as ToneMode[]).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setToneSettings(s => ({ ...s, mode }))}
+                        className={`py-2 rounded-lg text-xs border transition-colors font-bold uppercase ${toneSettings.mode === mode ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:border-slate-600'}`}
+                      >
+                        {mode}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wide">
+                      Carrier Hz
+                      <input type="number" min="20" max="1000" step="0.1" value={toneSettings.carrierHz} onChange={(e) => setToneSettings(s => ({ ...s, carrierHz: parseFloat(e.target.value) || s.carrierHz }))} className="mt-1 w-full bg-slate-900 border border-slate-800 rounded-lg px-3 py-2 mono text-sm text-slate-200" />
+                    </label>
+                    <label className="text-xs font-bold text-slate-400 uppercase tracking-wide">
+                      Beat Hz
+                      <input type="number" min="0.5" max="100" step="0.1" value={toneSettings.beatHz} onChange={(e) => setToneSettings(s => ({ ...s, beatHz: parseFloat(e.target.value) || s.beatHz }))} className="mt-1 w-full bg-slate-900 border border-slate-800 rounded-lg px-3 py-2 mono text-sm text-slate-200" />
+                    </label>
+                  </div>
+                  {toneSettings.mode === 'isochronic' && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <div className="flex justify-between mb-2">
+                          <span className="text-xs font-bold text-slate-400 uppercase tracking-wide">Duty Cycle</span>
+                          <span className="text-xs text-indigo-400 mono font-bold">{Math.round((toneSettings.dutyCycle ?? 0.5) * 100)}%</span>
+                        </div>
+                        <input type="range" min="0.1" max="0.9" step="0.05" value={toneSettings.dutyCycle ?? 0.5} onChange={(e) => setToneSettings(s => ({ ...s, dutyCycle: parseFloat(e.target.value) }))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+                      </div>
+                      <div className="grid grid-cols-3 gap-1">
+                        {(['sine', 'triangle', 'square'] as const).map(shape => (
+                          <button
+                            key={shape}
+                            onClick={() => setToneSettings(s => ({ ...s, pulseShape: shape }))}
+                            className={`rounded-lg text-[10px] border transition-colors font-bold uppercase ${(toneSettings.pulseShape ?? 'sine') === shape ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:border-slate-600'}`}
+                          >
+                            {shape}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
                 
                 <div className="pt-4 border-t border-slate-800">
                     <div className="flex items-center justify-between mb-4">
@@ -460,6 +942,12 @@ const App: React.FC = () => {
                             >
                                 ACCURATE
                             </button>
+                            <button 
+                                onClick={() => setDetectionMode('tempo_map')}
+                                className={`px-4 py-1.5 rounded-md text-xs font-bold transition-all ${detectionMode === 'tempo_map' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}
+                            >
+                                TEMPO MAP
+                            </button>
                         </div>
                     </div>
                     <FileInput 
@@ -476,12 +964,67 @@ const App: React.FC = () => {
                 meta={musicTrack} 
                 type="music" 
                 boundaries={boundaries} 
-                onBoundaryUpdate={setBoundaries} 
+                loopSimilarity={loopSimilarity} 
+                onBoundaryUpdate={b => { setBoundaries(b); setLoopSimilarity(undefined); }} 
                 manualBpm={manualMusicBpm} 
                 onManualBpmUpdate={setManualMusicBpm} 
                 isAnalyzing={isAnalyzing} 
                 analysisStatus={analysisStatus} 
+                onCancelAnalysis={cancelAnalyses} 
                 />}
+
+                {musicTrack && (
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest">Music Playlist</h3>
+                      <button
+                        onClick={() => setShufflePlaylist(s => !s)}
+                        className={`px-3 py-1 rounded-md text-xs border font-bold uppercase transition-colors ${shufflePlaylist ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:border-slate-600'}`}
+                      >
+                        <i className="fas fa-shuffle mr-1"></i> Shuffle
+                      </button>
+                    </div>
+                    {playlist.map(({ key, track }, i) => (
+                      <div key={key} className="flex items-center justify-between gap-3 px-4 py-2 bg-slate-900/40 rounded-lg border border-slate-700/30">
+                        <span className="text-xs font-bold text-slate-300 truncate">
+                          {i + 2}. {track?.name ?? `${(recipeTracks[key] as { name?: string } | undefined)?.name ?? key} (Upload To Restore)`}
+                        </span>
+                        <button onClick={() => setPlaylist(prev => prev.filter(e => e.key !== key))} className="w-7 h-7 text-slate-500 hover:text-red-400"><i className="fas fa-times"></i></button>
+                      </div>
+                    ))}
+                    <label className="flex items-center justify-center gap-2 w-full py-3 border-2 border-dashed border-slate-700 rounded-xl cursor-pointer hover:bg-slate-700/20 transition-all text-xs font-bold text-slate-500 uppercase tracking-widest">
+                      <i className="fas fa-list-ol"></i> Add Music To Playlist
+                      <input type="file" className="hidden" accept={audioAccept} onChange={(e) => { e.target.files?.[0] && handlePlaylistUpload(e.target.files[0]); e.target.value = ''; }} />
+                    </label>
+                    {playlist.length > 0 && (
+                      <p className="text-xs text-slate-500">Tracks play in turn at the session tempo, their levels matched by loudness, each handing over to the next on a downbeat.</p>
+                    )}
+                  </div>
+                )}
+
+                <div className="pt-4 border-t border-slate-800 space-y-4">
+                  <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest">Additional Layers</h3>
+                  {extraLayers.map(({ layer, track }) => (
+                    <LayerRow
+                      key={layer.id}
+                      layer={layer}
+                      name={track?.name ?? (layer.noise ? NoiseGenerator.describe(layer.noise) : `${(recipeTracks[layer.trackId!] as { name?: string } | undefined)?.name ?? layer.id} (Upload To Restore)`)}
+                      onChange={(patch) => updateLayer(layer.id, patch)}
+                      onRemove={() => setExtraLayers(prev => prev.filter(e => e.layer.id !== layer.id))}
+                    />
+                  ))}
+                  <label className="flex items-center justify-center gap-2 w-full py-3 border-2 border-dashed border-slate-700 rounded-xl cursor-pointer hover:bg-slate-700/20 transition-all text-xs font-bold text-slate-500 uppercase tracking-widest">
+                    <i className="fas fa-layer-group"></i> Add Layer (Ambience, Voice...)
+                    <input type="file" className="hidden" accept={audioAccept} onChange={(e) => { e.target.files?.[0] && handleLayerUpload(e.target.files[0]); e.target.value = ''; }} />
+                  </label>
+                  <div className="grid grid-cols-4 gap-2">
+                    {(['white', 'pink', 'brown', 'grey'] as NoiseColor[]).map(color => (
+                      <button key={color} onClick={() => handleAddNoise(color)} className="py-2 rounded-lg text-xs border font-bold uppercase bg-slate-900 border-slate-800 text-slate-500 hover:border-slate-600 hover:text-slate-300">
+                        + {color}
+                      </button>
+                    ))}
+                  </div>
+                </div>
             </div>
           </div>
 
@@ -543,6 +1086,137 @@ const App: React.FC = () => {
                     onChange={(e) => setTargetBpm(parseFloat(e.target.value) || undefined)} 
                     className="w-full bg-slate-950 border border-slate-800 rounded p-3 pl-4 text-base mono text-indigo-400 focus:outline-none focus:border-indigo-500" 
                   />
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Stretch Engine</span>
+                    <div className="bg-slate-800 rounded-lg p-1 flex border border-slate-700/50">
+                      {(['wsola', 'phase_vocoder'] as StretchAlgorithm[]).map((alg) => (
+                        <button
+                          key={alg}
+                          onClick={() => setStretchAlgorithm(alg)}
+                          className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${stretchAlgorithm === alg ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-500 hover:text-slate-300'}`}
+                        >
+                          {alg === 'wsola' ? 'WSOLA' : 'PHASE VOCODER'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex justify-between items-end">
+                  <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Music Tuning</label>
+                  <button onClick={() => { setPitchCents(0); setRetuneHz(undefined); }} className="text-xs font-bold text-indigo-400 hover:text-indigo-300 uppercase tracking-wider">Reset</button>
+                </div>
+                <div className="p-4 bg-slate-900/40 rounded-xl border border-slate-700/30 space-y-4">
+                  <div className="grid grid-cols-3 gap-3">
+                    {[440, 432].map(hz => (
+                      <button
+                        key={hz}
+                        onClick={() => setRetuneHz(hz === 440 ? undefined : hz)}
+                        className={`py-2.5 rounded-lg mono text-xs border transition-colors font-bold ${(retuneHz ?? 440) === hz ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:border-slate-600'}`}
+                      >
+                        A={hz}
+                      </button>
+                    ))}
+                    <button
+                      disabled={!focusCarrierHz}
+                      onClick={() => focusCarrierHz && setPitchCents(Math.round(PitchShifter.harmonicRetuneCents(focusCarrierHz, retuneHz)))}
+                      className="py-2.5 rounded-lg text-xs border transition-colors font-bold bg-slate-900 border-slate-800 text-slate-500 hover:border-slate-600 disabled:opacity-30"
+                    >
+                      MATCH FOCUS
+                    </button>
+                  </div>
+                  {harmonic && (
+                    <div className={`p-3 rounded-lg border flex justify-between items-center ${harmonic.score < 0.5 ? 'bg-amber-500/10 border-amber-500/30' : 'bg-slate-900 border-slate-800'}`}>
+                      <p className={`text-xs mono ${harmonic.score < 0.5 ? 'text-amber-400' : 'text-slate-400'}`}>
+                        Focus on {harmonic.note} {harmonic.centsOff > 0 ? `+${harmonic.centsOff}` : harmonic.centsOff} ct in {musicTrack!.key!.name} • {Math.round(harmonic.score * 100)}% compatible
+                      </p>
+                      {harmonic.suggestedShiftCents !== Math.round(musicShiftCents) && (
+                        <button
+                          onClick={() => setPitchCents(Math.max(-1200, Math.min(1200, Math.round(harmonic.suggestedShiftCents - (musicShiftCents - pitchCents)))))}
+                          className="text-xs font-bold text-indigo-400 hover:text-indigo-300 uppercase tracking-wider"
+                        >
+                          Retune
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  <div>
+                    <div className="flex justify-between mb-3">
+                      <span className="text-sm font-bold text-slate-300 uppercase tracking-wide">Pitch Shift</span>
+                      <span className="text-sm text-indigo-400 mono font-bold">{pitchCents > 0 ? `+${pitchCents}` : pitchCents} ct</span>
+                    </div>
+                    <input type="range" min="-1200" max="1200" step="1" value={pitchCents} onChange={(e) => setPitchCents(parseInt(e.target.value))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex justify-between items-end">
+                  <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Crossfades</label>
+                  <button onClick={() => { setCrossfadeSeconds(3); setCrossfades({}); }} className="text-xs font-bold text-indigo-400 hover:text-indigo-300 uppercase tracking-wider">Reset</button>
+                </div>
+                <div className="p-4 bg-slate-900/40 rounded-xl border border-slate-700/30 space-y-4">
+                  <div>
+                    <div className="flex justify-between mb-3">
+                      <span className="text-sm font-bold text-slate-300 uppercase tracking-wide">Default Length</span>
+                      <span className="text-sm text-indigo-400 mono font-bold">{crossfadeSeconds} s</span>
+                    </div>
+                    <input type="range" min="0" max="12" step="0.5" value={crossfadeSeconds} onChange={(e) => setCrossfadeSeconds(parseFloat(e.target.value))} className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500" />
+                  </div>
+                  {CROSSFADE_TRANSITIONS.map(({ key, label }) => {
+                    const fade = crossfades[key] ?? {};
+                    const update = (patch: CrossfadeSettings) => setCrossfades(prev => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+                    return (
+                      <div key={key} className="grid grid-cols-[1.2fr_1.3fr_1fr] gap-2 items-center">
+                        <span className="text-xs font-bold text-slate-400 uppercase tracking-wide">{label}</span>
+                        <select value={fade.curve ?? 'auto'} onChange={(e) => update({ curve: e.target.value as CrossfadeCurve })} className="bg-slate-900 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-300 uppercase">
+                          {CROSSFADE_CURVES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                        </select>
+                        <input type="number" min="0" max={MAX_CROSSFADE_SECONDS} step="0.5" placeholder={`${crossfadeSeconds} s`} value={fade.seconds ?? ''} onChange={(e) => { const v = parseFloat(e.target.value); update({ seconds: isNaN(v) ? undefined : Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, v)) }); }} className="bg-slate-900 border border-slate-800 rounded-lg px-2 py-1.5 mono text-xs text-slate-200" title="Seconds" />
+                      </div>
+                    );
+                  })}
+                  <p className="text-xs text-slate-500">Auto listens at each splice: equal-gain where both sides match, equal-power where they differ. Beat Synced rounds the length to whole beats.</p>
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex justify-between items-end">
+                  <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Session Program</label>
+                  <div className="flex gap-3">
+                    {PROGRAM_PRESETS.map(preset => (
+                      <button key={preset.label} onClick={() => setProgram(preset.keyframes(Math.round(targetBpm || musicTrack?.bpmInfo?.corrected || 120)))} className="text-xs font-bold text-indigo-400 hover:text-indigo-300 uppercase tracking-wider">{preset.label}</button>
+                    ))}
+                    <button onClick={() => setProgram([])} className="text-xs font-bold text-slate-500 hover:text-slate-300 uppercase tracking-wider">Clear</button>
+                  </div>
+                </div>
+                <div className="p-4 bg-slate-900/40 rounded-xl border border-slate-700/30 space-y-3">
+                  {program.length === 0 && (
+                    <p className="text-xs text-slate-500">Static session. Add keyframes to glide the beat frequency (generated foundations) and the music tempo over time.</p>
+                  )}
+                  {program.map((k, i) => {
+                    const update = (patch: Partial<ProgramKeyframe>) => setProgram(prev => prev.map((p, j) => j === i ? { ...p, ...patch } : p));
+                    const num = (v: string) => v === '' ? undefined : parseFloat(v);
+                    return (
+                      <div key={i} className="grid grid-cols-[1fr_1fr_1fr_1.3fr_auto] gap-2 items-center">
+                        <input type="number" min="0" step="1" value={k.timeMinutes} onChange={(e) => update({ timeMinutes: num(e.target.value) ?? 0 })} className="bg-slate-900 border border-slate-800 rounded-lg px-2 py-1.5 mono text-xs text-slate-200" title="Minutes" />
+                        <input type="number" min="0.5" step="0.1" placeholder="Hz" value={k.beatHz ?? ''} onChange={(e) => update({ beatHz: num(e.target.value) })} className="bg-slate-900 border border-slate-800 rounded-lg px-2 py-1.5 mono text-xs text-slate-200" title="Beat Hz" />
+                        <input type="number" min="40" step="1" placeholder="BPM" value={k.bpm ?? ''} onChange={(e) => update({ bpm: num(e.target.value) })} className="bg-slate-900 border border-slate-800 rounded-lg px-2 py-1.5 mono text-xs text-slate-200" title="BPM" />
+                        <select value={k.curve ?? 'linear'} onChange={(e) => update({ curve: e.target.value as RampCurve })} className="bg-slate-900 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-300 uppercase">
+                          {(['linear', 'exponential', 'smooth', 'hold'] as RampCurve[]).map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                        <button onClick={() => setProgram(prev => prev.filter((_, j) => j !== i))} className="text-slate-500 hover:text-red-400 px-2"><i className="fas fa-times"></i></button>
+                      </div>
+                    );
+                  })}
+                  <button
+                    onClick={() => setProgram(prev => [...prev, { timeMinutes: prev.length ? Math.min(targetDuration, prev[prev.length - 1].timeMinutes + 10) : 0, curve: 'linear' }])}
+                    className="w-full py-2 rounded-lg text-xs border border-dashed border-slate-700 text-slate-500 hover:border-slate-500 hover:text-slate-300 font-bold uppercase tracking-wider"
+                  >
+                    Add Keyframe
+                  </button>
                 </div>
               </div>
 
@@ -559,15 +1233,50 @@ const App: React.FC = () => {
                           : 'bg-slate-900 border-slate-800 text-slate-500 hover:border-slate-700'
                       }`}
                     >
-                      {format === 'wav_lossless' ? 'WAV' : format === 'flac_lossless' ? 'FLAC' : format === 'mp3_high' ? 'MP3 320K' : 'MP3 192K'}
+                      {format === 'wav_lossless' ? 'WAV' : format === 'flac_lossless' ? 'FLAC' : format === 'mp3_high' ? 'MP3 320K' : 'MP3 VBR 190K'}
                     </button>
                   ))}
                 </div>
+                {!exportFormat.startsWith('mp3') && (
+                  <div className="flex items-center justify-between gap-3 p-3 bg-slate-900/40 rounded-xl border border-slate-700/30">
+                    <div className="flex gap-2">
+                      {([16, 24, 32] as BitDepth[]).filter(d => d !== 32 || exportFormat === 'wav_lossless').map((depth) => (
+                        <button
+                          key={depth}
+                          onClick={() => setBitDepth(depth)}
+                          className={`px-3 py-1.5 rounded-md text-xs mono font-bold border transition-all ${bitDepth === depth ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:border-slate-700'}`}
+                        >
+                          {depth === 32 ? '32F' : `${depth}-BIT`}
+                        </button>
+                      ))}
+                    </div>
+                    {bitDepth === 16 && (
+                      <label className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase tracking-wider cursor-pointer">
+                        <input type="checkbox" checked={noiseShaping} onChange={(e) => setNoiseShaping(e.target.checked)} className="accent-indigo-500" />
+                        Noise Shaping
+                      </label>
+                    )}
+                  </div>
+                )}
+                <div className="flex items-center justify-between gap-3 p-3 bg-slate-900/40 rounded-xl border border-slate-700/30">
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Loudness</span>
+                  <div className="flex gap-2">
+                    {[undefined, -23, -16, -14].map((lufs) => (
+                      <button
+                        key={lufs ?? 'off'}
+                        onClick={() => setTargetLufs(lufs)}
+                        className={`px-3 py-1.5 rounded-md text-xs mono font-bold border transition-all ${targetLufs === lufs ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:border-slate-700'}`}
+                      >
+                        {lufs === undefined ? 'OFF' : `${lufs} LUFS`}
+                      </button>
+                    ))}
+                  </div>
+                </div>
               </div>
 
               <button 
                 disabled={!focusTrack || !musicTrack || isProcessing} 
-                onClick={handleProcess} 
+                onClick={() => handleProcess()} 
                 className="w-full py-5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-30 disabled:cursor-not-allowed text-white text-lg font-black rounded-xl shadow-xl transition-all active:scale-[0.98] flex items-center justify-center gap-3"
               >
                 {isProcessing ? (
@@ -575,8 +1284,36 @@ const App: React.FC = () => {
                     <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
                     <span>SYNTHESIZING {progress}%</span>
                   </>
-                ) : resultBlob ? 'RE-CRAFT TUNE' : 'CRAFT TUNE'}
+                ) : resultBlob || savedFileName ? 'RE-CRAFT TUNE' : 'CRAFT TUNE'}
               </button>
+              {canSaveToFile && (
+                <button 
+                  disabled={!focusTrack || !musicTrack || isProcessing} 
+                  onClick={() => handleProcess(true)} 
+                  title="Streams the master straight to disk, for sessions too long to hold in memory"
+                  className="w-full mt-3 py-3 bg-slate-800 hover:bg-slate-700 disabled:opacity-30 disabled:cursor-not-allowed text-slate-200 text-sm font-black rounded-xl transition-all flex items-center justify-center gap-3"
+                >
+                  <i className="fas fa-hard-drive"></i>
+                  <span>CRAFT TO FILE</span>
+                </button>
+              )}
+
+              <div className="pt-6 border-t border-slate-800 space-y-3">
+                <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest">Session Recipe</h3>
+                <div className="grid grid-cols-3 gap-2">
+                  <button onClick={handleExportRecipe} className="py-2 rounded-lg text-xs border font-bold uppercase bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200">
+                    <i className="fas fa-file-export mr-1"></i> Export
+                  </button>
+                  <label className="py-2 rounded-lg text-xs border font-bold uppercase bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200 cursor-pointer text-center">
+                    <i className="fas fa-file-import mr-1"></i> Import
+                    <input type="file" className="hidden" accept=".json,application/json" onChange={(e) => { e.target.files?.[0] && handleImportRecipe(e.target.files[0]); e.target.value = ''; }} />
+                  </label>
+                  <button onClick={handleCopyLink} className="py-2 rounded-lg text-xs border font-bold uppercase bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-600 hover:text-slate-200">
+                    <i className="fas fa-link mr-1"></i> Copy Link
+                  </button>
+                </div>
+                {recipeNotice && <p className="text-xs text-slate-400 leading-snug">{recipeNotice}</p>}
+              </div>
             </section>
           </div>
         </div>
@@ -591,7 +1328,10 @@ const App: React.FC = () => {
                 <>
                     <div className="flex items-center justify-between mb-1">
                         <span className="text-xs font-black text-emerald-400 uppercase tracking-widest">Mastering Complete</span>
-                        <span className="text-xs font-bold text-slate-500 uppercase tracking-widest font-mono">{exportFormat.replace('_', ' ').toUpperCase()}</span>
+                        <span className="text-xs font-bold text-slate-500 uppercase tracking-widest font-mono">
+                          {loudnessReport && `${loudnessReport.integratedLufs.toFixed(1)} LUFS · ${loudnessReport.truePeakDbtp.toFixed(1)} dBTP · LRA ${loudnessReport.loudnessRange.toFixed(1)} LU · `}
+                          {exportFormat.replace('_', ' ').toUpperCase()}
+                        </span>
                     </div>
                     <div className="flex flex-col md:flex-row items-center gap-6">
                         <div className="flex-1 w-full relative">
@@ -605,10 +1345,7 @@ const App: React.FC = () => {
                                 onClick={() => {
                                     const a = document.createElement('a'); 
                                     a.href = previewUrl!; 
-                                    let ext = 'wav';
-                                    if (exportFormat === 'flac_lossless') ext = 'flac';
-                                    else if (exportFormat.startsWith('mp3')) ext = 'mp3';
-                                    a.download = `TuneScape_${focusTrack?.name.split('.')[0]}.${ext}`; 
+                                    a.download = outputName(); 
                                     a.click();
                                 }} 
                                 className="w-full py-5 bg-indigo-600 hover:bg-indigo-500 text-white text-base font-black rounded-xl shadow-lg shadow-indigo-500/20 transition-all hover:-translate-y-1 flex items-center justify-center gap-3"
@@ -619,11 +1356,20 @@ const App: React.FC = () => {
                         </div>
                     </div>
                 </>
+            ) : savedFileName && !isProcessing ? (
+                <div className="flex items-center justify-between py-4">
+                    <span className="text-xs font-black text-emerald-400 uppercase tracking-widest">Saved To {savedFileName}</span>
+                    <span className="text-xs font-bold text-slate-500 uppercase tracking-widest font-mono">
+                      {loudnessReport && `${loudnessReport.integratedLufs.toFixed(1)} LUFS · ${loudnessReport.truePeakDbtp.toFixed(1)} dBTP · LRA ${loudnessReport.loudnessRange.toFixed(1)} LU · `}
+                      {exportFormat.replace('_', ' ').toUpperCase()}
+                    </span>
+                </div>
             ) : isProcessing ? (
                 <div className="w-full flex flex-col items-center justify-center py-4 space-y-4">
                     <div className="flex items-center gap-4">
                         <div className="w-8 h-8 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
-                        <p className="text-sm text-indigo-400 font-bold uppercase tracking-widest">Synthesis in Progress: {progress}%</p>
+                        <p className="text-sm text-indigo-400 font-bold uppercase tracking-widest">{STAGE_LABELS[progressStage]}: {progress}%</p>
+                        <button onClick={cancelRender} className="text-xs font-bold text-slate-500 hover:text-rose-400 uppercase tracking-wider">Cancel</button>
                     </div>
                     <div className="w-full bg-slate-800 rounded-full h-2 overflow-hidden">
                         <div className="bg-indigo-500 h-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+
+import { closeSync, openSync, readFileSync, unlinkSync, writeSync } from 'node:fs';
+import { basename, dirname, extname, resolve } from 'node:path';
+import { DetectionMode, RecipeTrack, RenderStage, SessionTrack, ToneSettings } from './types';
+import { EngineCore } from './services/engineCore';
+import { FileDecoder } from './services/fileDecoder';
+import { SessionRenderer } from './services/sessionRenderer';
+import { RecipeFormat } from './services/recipeFormat';
+
+const USAGE = 'Usage: tunescape <recipe.json> [--out <file>] [--quiet]';
+
+const STAGE_LABELS: Record<RenderStage, string> = {
+  preparing: 'Preparing Layers',
+  measuring: 'Measuring Loudness',
+  rendering: 'Rendering Master'
+};
+
+// Generated focus tones are rendered as the app renders them: a minute-long clip at 48 kHz
+const TONE_SAMPLE_RATE = 48000;
+const TONE_CLIP_SECONDS = 60;
+
+/**
+ * Renders a session recipe (see `RecipeFormat`) to a file with the same core the app's engine worker
+ * runs: tracks are decoded at their own rate and analysed as uploads are, then `SessionRenderer`
+ * streams the encoded output to disk and the finished header is written over the provisional one.
+ */
+async function main(args: string[]) {
+  let recipePath: string | undefined;
+  let outArg: string | undefined;
+  let quiet = false;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--quiet') quiet = true;
+    else if (args[i] === '--out' && args[i + 1]) outArg = args[++i];
+    else if (!args[i].startsWith('--') && !recipePath) recipePath = args[i];
+    else throw new Error(USAGE);
+  }
+  if (!recipePath) throw new Error(USAGE);
+
+  const log = (message: string) => { if (!quiet) process.stderr.write(`${message}\n`); };
+  const recipe = RecipeFormat.parse(readFileSync(recipePath, 'utf8'));
+  const base = dirname(resolve(recipePath));
+  const mode: DetectionMode = recipe.detectionMode ?? 'accurate';
+
+  const tracks: Record<string, SessionTrack> = {};
+  for (const [key, ref] of Object.entries(recipe.tracks)) {
+    if ('tone' in ref) {
+      tracks[key] = EngineCore.synthesizeFocus(ref.tone, TONE_SAMPLE_RATE, TONE_CLIP_SECONDS);
+    } else {
+      log(`Decoding ${key}: ${ref.path ?? ref.name}`);
+      tracks[key] = await loadTrack(base, ref, mode, status => log(`  ${status}`));
+    }
+  }
+
+  const o = recipe.options;
+  const mix = recipe.mix ?? SessionRenderer.pairMix(o);
+  const outPath = outArg
+    ? resolve(outArg)
+    : resolve(base, recipe.output ?? `${basename(recipePath, extname(recipePath))}.${EngineCore.fileExtension(o.exportFormat)}`);
+
+  const fd = openSync(outPath, 'w');
+  let lastReport = '';
+  try {
+    const { header, loudness } = await SessionRenderer.render(tracks, mix, o, bytes => { writeSync(fd, bytes); }, (stage, fraction) => {
+      const report = `${STAGE_LABELS[stage]} ${Math.floor(fraction * 10) * 10}%`;
+      if (report !== lastReport) log(report);
+      lastReport = report;
+    });
+    if (header.length) writeSync(fd, header, 0, header.length, 0);
+    closeSync(fd);
+    log(`Wrote ${outPath}`);
+    log(`Loudness ${loudness.integratedLufs.toFixed(1)} LUFS, true peak ${loudness.truePeakDbtp.toFixed(1)} dBTP`);
+  } catch (err) {
+    closeSync(fd);
+    unlinkSync(outPath);
+    throw err;
+  }
+}
+
+/** Decodes and analyses a recipe's file, refusing one whose bytes are not the ones the recipe was made with. */
+async function loadTrack(base: string, ref: Exclude<RecipeTrack, { tone: ToneSettings }>, mode: DetectionMode, onStatus: (status: string) => void): Promise<SessionTrack> {
+  const path = resolve(base, ref.path ?? ref.name);
+  const bytes = readFileSync(path) as Uint8Array<ArrayBuffer>;
+  if (ref.sha256 && (await RecipeFormat.hash(bytes)) !== ref.sha256) throw new Error(`${path} is not the file the recipe was made with (its SHA-256 differs)`);
+  const format = FileDecoder.sniff(bytes);
+  if (!format) throw new Error(`${path}: only WAV and FLAC files can be read`);
+  const { channels, sampleRate } = FileDecoder.decode(bytes);
+  const analysis = await EngineCore.analyzeTrack(channels, sampleRate, mode, onStatus);
+
+  return {
+    channels,
+    sampleRate,
+    info: {
+      name: ref.name,
+      duration: channels[0].length / sampleRate,
+      sampleRate,
+      format,
+      ...analysis
+    }
+  };
+}
+
+main(process.argv.slice(2)).catch(err => {
+  process.stderr.write(`tunescape: ${err instanceof Error ? err.message : String(err)}\n`);
+  process.exit(1);
+});
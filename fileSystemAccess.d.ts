@@ -0,0 +1,13 @@
+
+// The save dialog of the File System Access API, which TypeScript's DOM library leaves out as it is
+// not in every browser; check `'showSaveFilePicker' in window` before calling it
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  startIn?: FileSystemHandle | 'desktop' | 'documents' | 'downloads' | 'music' | 'pictures' | 'videos';
+  types?: { description?: string; accept: Record<string, string | string[]> }[];
+  excludeAcceptAllOption?: boolean;
+}
+
+interface Window {
+  showSaveFilePicker(options?: SaveFilePickerOptions): Promise<FileSystemFileHandle>;
+}
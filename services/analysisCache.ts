@@ -0,0 +1,143 @@
+
+const DB_NAME = 'tunescape-analysis';
+const STORE = 'results';
+// Results kept in all, measured as stored JSON; the least recently used go first beyond this
+const MAX_CACHE_BYTES = 32 * 1024 * 1024;
+
+// Version of each cached analysis. Bump one whenever its algorithm changes what it returns:
+// results stored under any other version are discarded instead of served.
+const ANALYSIS_VERSIONS = {
+  analyzeTrack: 4,
+  analyzeBpm: 2,
+  analyzeTempoMap: 1,
+  detectBoundaries: 1,
+  refineLoop: 1
+};
+
+export type AnalysisKind = keyof typeof ANALYSIS_VERSIONS;
+
+interface CacheEntry {
+  key: string;
+  kind: AnalysisKind;
+  version: number;
+  value: unknown;
+  size: number;
+  lastUsed: number;
+}
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Analysis results kept in IndexedDB across sessions, filed under the hash of the decoded audio they
+ * were measured on (see `EngineCore.pcmHash`), the analysis and its parameters. Where IndexedDB is
+ * missing or failing, every lookup misses and results are simply recomputed.
+ */
+export class AnalysisCache {
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  /** The stored result of `kind` for this audio and parameters, or else `compute`'s, which is then stored. */
+  async through<T>(kind: AnalysisKind, pcmHash: string, params: unknown[], compute: () => Promise<T>): Promise<T> {
+    const key = await this.key(kind, pcmHash, params);
+    const hit = await this.get(kind, key).catch(() => undefined);
+    if (hit !== undefined) return hit as T;
+    const value = await compute();
+    this.put(kind, key, value).catch(() => {});
+    return value;
+  }
+
+  async clear() {
+    const db = await this.open();
+    if (!db) return;
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).clear();
+    await done(tx);
+  }
+
+  private async get(kind: AnalysisKind, key: string): Promise<unknown> {
+    const db = await this.open();
+    if (!db) return undefined;
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const entry = await request(store.get(key) as IDBRequest<CacheEntry | undefined>);
+    let value: unknown;
+    if (entry && entry.version === ANALYSIS_VERSIONS[kind]) {
+      value = entry.value;
+      store.put({ ...entry, lastUsed: Date.now() });
+    } else if (entry) {
+      store.delete(key);
+    }
+    await done(tx);
+    return value;
+  }
+
+  private async put(kind: AnalysisKind, key: string, value: unknown) {
+    const db = await this.open();
+    if (!db) return;
+    const entry: CacheEntry = { key, kind, version: ANALYSIS_VERSIONS[kind], value, size: JSON.stringify(value)?.length ?? 0, lastUsed: Date.now() };
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(entry);
+    await done(tx);
+    await this.evict(db);
+  }
+
+  /** Drops results from other algorithm versions, then the least recently used until the rest fit. */
+  private async evict(db: IDBDatabase) {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const entries: { key: string; size: number }[] = [];
+    let total = 0;
+    await new Promise<void>((resolve, reject) => {
+      const cursor = store.index('lastUsed').openCursor(null, 'next');
+      cursor.onerror = () => reject(cursor.error);
+      cursor.onsuccess = () => {
+        const c = cursor.result;
+        if (!c) return resolve();
+        const entry = c.value as CacheEntry;
+        if (entry.version !== ANALYSIS_VERSIONS[entry.kind]) {
+          c.delete();
+        } else {
+          entries.push({ key: entry.key, size: entry.size });
+          total += entry.size;
+        }
+        c.continue();
+      };
+    });
+    for (const entry of entries) {
+      if (total <= MAX_CACHE_BYTES) break;
+      store.delete(entry.key);
+      total -= entry.size;
+    }
+    await done(tx);
+  }
+
+  private async key(kind: AnalysisKind, pcmHash: string, params: unknown[]): Promise<string> {
+    // Parameters such as a beat grid can be long, so they are folded into a digest
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(params)));
+    const paramsHash = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+    return `${kind}:${pcmHash}:${paramsHash}`;
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    this.db ??= new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('lastUsed', 'lastUsed');
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = req.onblocked = () => resolve(null);
+    });
+    return this.db;
+  }
+}
@@ -1,465 +1,247 @@
-
-import { AudioMetadata, LoopBoundaries, ProcessingOptions, DetectionMode, ExportFormat } from '../types';
-
-export class AudioEngine {
-  static async decodeFile(file: File, mode: DetectionMode = 'fast', onStatusUpdate?: (status: string) => void): Promise<AudioMetadata> {
-    const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const arrayBuffer = await file.arrayBuffer();
-    const audioBuffer = await audioCtx.decodeAudioData(arrayBuffer);
-    
-    const name = file.name;
-    const format = file.type.split('/')[1]?.toUpperCase() || 'AUDIO';
-    
-    const metadata: AudioMetadata = {
-      name,
-      duration: audioBuffer.duration,
-      sampleRate: audioBuffer.sampleRate,
-      buffer: audioBuffer,
-      format
-    };
-
-    if (audioBuffer.duration < 600) { 
-      metadata.bpmInfo = await this.analyzeBpm(audioBuffer, mode, onStatusUpdate);
-    }
-
-    metadata.frequency = this.extractFrequency(name) || await this.detectDominantFrequency(audioBuffer);
-    if (metadata.frequency) {
-      metadata.pulseRate = metadata.frequency * 60;
-      metadata.divisorBpms = [6, 8, 10, 12].map(n => Math.round((metadata.pulseRate! / n) * 10) / 10);
-    }
-
-    return metadata;
+import { AudioMetadata, LoopBoundaries, ProcessingOptions, DetectionMode, ToneSettings, MixDescription, RenderResult, RenderProgress, RenderStage, BeatGrid, LoopMatch, TempoPoint, BpmWindow, BpmInfo, TrackInfo } from '../types';
+import { EngineCore } from './engineCore';
+import { EngineClient } from './engineClient';
+import { SessionRenderer } from './sessionRenderer';
+import { FileDecoder } from './fileDecoder';
+import { RecipeFormat } from './recipeFormat';
+import { AnalysisCache, AnalysisKind } from './analysisCache';
+import { CancelledError } from './cancellation';
+
+// Typical share of a render's time spent in each stage, in stage order
+const STAGE_WEIGHTS: Record<RenderStage, number> = { preparing: 0.3, measuring: 0.2, rendering: 0.5 };
+
+/**
+ * Where a render's bytes go: into a Blob, or into `sink` as they arrive. A file stream from the File
+ * System Access API can seek, so the header is rewritten there once the render knows it in full; a
+ * plain stream keeps the provisional one.
+ */
+class RenderOutput {
+  private readonly parts: Uint8Array<ArrayBuffer>[] = [];
+  private readonly writer?: WritableStreamDefaultWriter<Uint8Array>;
+  private writing = Promise.resolve();
+  // The first write that failed; `onError` stops the render when it happens
+  error: unknown = null;
+
+  constructor(private readonly sink: WritableStream<Uint8Array> | undefined, private readonly onError: () => void) {
+    // A file stream only seeks through its own write(), which a locked writer would block
+    if (sink && !this.file) this.writer = sink.getWriter();
   }
 
-  private static extractFrequency(name: string): number | null {
-    const match = name.match(/(\d+[._]?\d*)\s*hz/i);
-    if (match) {
-      return parseFloat(match[1].replace('_', '.'));
-    }
-    return null;
+  private get file(): FileSystemWritableFileStream | null {
+    return this.sink && 'seek' in this.sink ? this.sink as FileSystemWritableFileStream : null;
   }
 
-  private static async detectDominantFrequency(buffer: AudioBuffer): Promise<number | null> {
-    const data = buffer.getChannelData(0);
-    const sampleRate = buffer.sampleRate;
-    const fftSize = 2048;
-    const offlineCtx = new OfflineAudioContext(1, fftSize, sampleRate);
-    
-    const b = offlineCtx.createBuffer(1, fftSize, sampleRate);
-    const start = Math.floor(data.length / 2);
-    b.copyToChannel(data.slice(start, start + fftSize), 0);
-
-    const source = offlineCtx.createBufferSource();
-    source.buffer = b;
-
-    const analyser = offlineCtx.createAnalyser();
-    analyser.fftSize = fftSize;
-    source.connect(analyser);
-    analyser.connect(offlineCtx.destination);
-    
-    source.start(0);
-    await offlineCtx.startRendering();
-
-    const freqData = new Float32Array(analyser.frequencyBinCount);
-    analyser.getFloatFrequencyData(freqData);
+  /** Queues `bytes` for the sink; resolves once they are written, or the sink has failed. */
+  write(bytes: Uint8Array<ArrayBuffer>): Promise<void> {
+    if (!this.sink) {
+      this.parts.push(bytes);
+      return Promise.resolve();
+    }
+    return this.writing = this.writing
+      .then(() => {
+        if (this.error === null) return this.writer ? this.writer.write(bytes) : this.file!.write(bytes);
+      })
+      .catch(err => {
+        this.error ??= err;
+        this.onError();
+      });
+  }
 
-    let maxVal = -Infinity;
-    let maxIdx = 0;
-    const upperLimit = Math.floor((1000 * fftSize) / sampleRate);
-    for (let i = 1; i < upperLimit; i++) {
-      if (freqData[i] > maxVal) {
-        maxVal = freqData[i];
-        maxIdx = i;
-      }
+  /** Finishes the output; resolves with the Blob when there is no sink. */
+  async close(header: Uint8Array<ArrayBuffer>, mimeType: string): Promise<Blob | undefined> {
+    if (!this.sink) {
+      if (this.parts[0]?.length === header.length) this.parts[0] = header;
+      return new Blob(this.parts, { type: mimeType });
+    }
+    await this.writing;
+    if (this.error !== null) throw this.error;
+    if (this.writer) {
+      await this.writer.close();
+    } else {
+      if (header.length) await this.file!.write({ type: 'write', position: 0, data: header });
+      await this.file!.close();
     }
+    return undefined;
+  }
 
-    const freq = maxIdx * (sampleRate / fftSize);
-    return freq > 5 ? Math.round(freq * 10) / 10 : null;
+  /** Discards what was written, where the sink allows it. */
+  async abort(reason: unknown) {
+    await this.writing;
+    await (this.writer ?? this.sink)?.abort(reason).catch(() => {});
   }
+}
 
-  static async analyzeBpm(
-    buffer: AudioBuffer, 
-    mode: DetectionMode, 
-    onStatusUpdate?: (status: string) => void
-  ): Promise<any> {
-    const data = buffer.getChannelData(0);
-    const sampleRate = buffer.sampleRate;
-    const rawResults: number[] = [];
-    let algorithmsUsed: string[] = [];
+export class AudioEngine {
+  private static readonly engine = new EngineClient();
+  private static readonly cache = new AnalysisCache();
+  // PCM hashes by buffer once known, and those still being worked out by the job they run under
+  private static readonly pcmHashes = new WeakMap<AudioBuffer, string>();
+  private static readonly pendingHashes = new WeakMap<AudioBuffer, Map<AbortSignal | undefined, Promise<string>>>();
 
-    if (mode === 'accurate') {
-      onStatusUpdate?.("Accessing Deep Analysis Weights...");
-      await new Promise(r => setTimeout(r, 800));
-      onStatusUpdate?.("Analyzing Temporal Energy Grids...");
-      
-      const bpm = await this.detectBpmByAutocorrelation(buffer);
-      if (bpm > 40 && bpm < 250) rawResults.push(bpm);
-      algorithmsUsed = ["Full-Track Autocorrelation"];
+  /**
+   * Decodes and analyses an uploaded file. WAV and FLAC are decoded in the engine worker at their own
+   * sample rate, as the CLI does (see `FileDecoder`); other formats go through Web Audio.
+   */
+  static async decodeFile(file: File, mode: DetectionMode = 'fast', onStatusUpdate?: (status: string) => void, signal?: AbortSignal): Promise<AudioMetadata> {
+    const arrayBuffer = await file.arrayBuffer();
+    const sha256 = await RecipeFormat.hash(new Uint8Array(arrayBuffer));
+    const native = FileDecoder.sniff(new Uint8Array(arrayBuffer, 0, Math.min(12, arrayBuffer.byteLength)));
+    let audioBuffer: AudioBuffer;
+    if (native) {
+      const { channels, sampleRate } = await this.engine.call('decode', [new Uint8Array(arrayBuffer)], { signal, transfer: [arrayBuffer] });
+      audioBuffer = this.toAudioBuffer(channels, sampleRate);
     } else {
-      onStatusUpdate?.("Running Fast Multi-Pass Peaks...");
-      const hopSizes = [0.03, 0.05, 0.08, 0.1, 0.12, 0.15]; 
-      for (const hop of hopSizes) {
-        const tempo = this.detectBpmByPeakClustering(data, sampleRate, hop);
-        if (tempo > 40 && tempo < 300) rawResults.push(Math.round(tempo * 10) / 10);
+      // decodeAudioData cannot be stopped once started, so the signal is checked either side of it
+      CancelledError.throwIfAborted(signal);
+      const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      try {
+        audioBuffer = await audioCtx.decodeAudioData(arrayBuffer);
+      } finally {
+        // Browsers allow only a few live contexts; this one was only needed to decode
+        await audioCtx.close().catch(() => {});
       }
-      algorithmsUsed = ["Peak Clustering"];
     }
-
-    if (rawResults.length === 0) {
-      return { 
-        raw: 120, corrected: 120, candidates: [], stdDev: 0, confidence: 'low', 
-        algorithmsUsed: ["Fallback"], allPasses: [], filteredPasses: [], modeUsed: mode 
-      };
-    }
-
-    rawResults.sort((a, b) => a - b);
-    const q1 = rawResults[Math.floor(rawResults.length * 0.25)];
-    const q3 = rawResults[Math.floor(rawResults.length * 0.75)];
-    const iqr = q3 - q1;
-    const filteredPasses = iqr === 0 ? rawResults : rawResults.filter(t => t >= q1 - 1.5 * iqr && t <= q3 + 1.5 * iqr);
+    CancelledError.throwIfAborted(signal);
     
-    const medianBpm = filteredPasses[Math.floor(filteredPasses.length / 2)];
-    const mean = filteredPasses.reduce((a, b) => a + b, 0) / (filteredPasses.length || 1);
-    const variance = filteredPasses.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (filteredPasses.length || 1);
-    const stdDev = Math.sqrt(variance);
-
-    let confidence: 'high' | 'medium' | 'low' = mode === 'accurate' ? 'high' : 'medium';
-    if (stdDev >= 10 || (mode === 'fast' && filteredPasses.length < 3)) confidence = 'low';
-
-    let corrected = medianBpm;
-    while (corrected > 200) corrected /= 2;
-    while (corrected < 60) corrected *= 2;
+    const name = file.name;
+    const format = native ?? (file.type.split('/')[1]?.toUpperCase() || 'AUDIO');
+    const analysis = await this.cached('analyzeTrack', audioBuffer, [mode], signal, () =>
+      this.engine.call('analyzeTrack', [this.engine.track(audioBuffer, signal), mode], { onStatus: onStatusUpdate, signal })
+    );
     
-    const finalRaw = Math.round(medianBpm * 10) / 10;
-    const finalCorrected = Math.round(corrected * 10) / 10;
-
-    const candidates = [
-      Math.round((finalCorrected / 2) * 10) / 10,
-      Math.round((finalCorrected * 1.5) * 10) / 10,
-      Math.round((finalCorrected * 2) * 10) / 10
-    ].filter(c => c >= 40 && c <= 220 && Math.abs(c - finalCorrected) > 2);
-
-    return { 
-      raw: finalRaw, 
-      corrected: finalCorrected, 
-      candidates: Array.from(new Set(candidates)),
-      stdDev: Math.round(stdDev * 100) / 100,
-      confidence,
-      algorithmsUsed,
-      allPasses: rawResults,
-      filteredPasses,
-      modeUsed: mode
+    return {
+      name,
+      duration: audioBuffer.duration,
+      sampleRate: audioBuffer.sampleRate,
+      buffer: audioBuffer,
+      format,
+      sha256,
+      ...analysis
     };
   }
 
-  private static async detectBpmByAutocorrelation(buffer: AudioBuffer): Promise<number> {
-    const data = buffer.getChannelData(0);
-    const sampleRate = buffer.sampleRate;
-    const targetFs = 100;
-    const ratio = Math.floor(sampleRate / targetFs);
-    const envLength = Math.floor(data.length / ratio);
-    const env = new Float32Array(envLength);
-    
-    for (let i = 0; i < envLength - 1; i++) {
-      let energy = 0;
-      for (let j = 0; j < ratio; j++) {
-        const val = data[i * ratio + j];
-        energy += val * val;
-      }
-      env[i] = energy;
-    }
-
-    for (let i = env.length - 1; i > 0; i--) {
-      env[i] = Math.max(0, env[i] - env[i - 1]);
-    }
+  /**
+   * Builds a focus layer procedurally instead of decoding one (see `EngineCore.synthesizeFocus`);
+   * `process` loops it like any uploaded focus file but without crossfades.
+   */
+  static synthesizeFocus(settings: ToneSettings, sampleRate = 48000, clipSeconds = 60): AudioMetadata {
+    const { channels, info } = EngineCore.synthesizeFocus(settings, sampleRate, clipSeconds);
+    return { ...info, buffer: this.toAudioBuffer(channels, sampleRate) };
+  }
 
-    let maxAuto = 0;
-    let bestLag = 60;
-    for (let lag = 30; lag <= 100; lag++) {
-      let sum = 0;
-      for (let i = 0; i < env.length - lag; i++) {
-        sum += env[i] * env[i + lag];
-      }
-      if (sum > maxAuto) {
-        maxAuto = sum;
-        bestLag = lag;
-      }
-    }
-    return (60 * targetFs) / bestLag;
+  /** Local BPM over time (see `EngineCore.analyzeTempoMap`). */
+  static analyzeTempoMap(buffer: AudioBuffer, bpm: number, windows?: BpmWindow[], signal?: AbortSignal): Promise<TempoPoint[]> {
+    return this.cached('analyzeTempoMap', buffer, [bpm, windows], signal, () => this.engine.call('analyzeTempoMap', [this.engine.track(buffer, signal), bpm, windows], { signal }));
   }
 
-  private static detectBpmByPeakClustering(data: Float32Array, sampleRate: number, hopSec: number): number {
-    const hopSize = Math.floor(sampleRate * hopSec);
-    const peaks: number[] = [];
-    const step = Math.max(1, Math.floor(data.length / 3000));
-    for (let i = 0; i < data.length; i += hopSize) {
-      let max = 0;
-      for (let j = 0; j < hopSize && i + j < data.length; j += step) {
-        const val = Math.abs(data[i + j]);
-        if (val > max) max = val;
-      }
-      if (max > 0.15) peaks.push(i / sampleRate);
-    }
-    if (peaks.length < 5) return 0;
-    const diffs = [];
-    for (let i = 1; i < peaks.length; i++) {
-      const d = peaks[i] - peaks[i - 1];
-      if (d > 0.2 && d < 2.0) diffs.push(d);
-    }
-    if (diffs.length === 0) return 0;
-    const avgDiff = diffs.sort()[Math.floor(diffs.length / 2)];
-    return 60 / avgDiff;
+  /** Tempo from a multi-band onset tempogram, windowed for long files (see `EngineCore.analyzeBpm`). */
+  static analyzeBpm(buffer: AudioBuffer, mode: DetectionMode, onStatusUpdate?: (status: string) => void, signal?: AbortSignal): Promise<BpmInfo> {
+    return this.cached('analyzeBpm', buffer, [mode], signal, () => this.engine.call('analyzeBpm', [this.engine.track(buffer, signal), mode], { onStatus: onStatusUpdate, signal }));
   }
 
-  static detectBoundaries(buffer: AudioBuffer): LoopBoundaries {
-    const data = buffer.getChannelData(0);
-    const sampleRate = buffer.sampleRate;
-    const chunkSize = Math.floor(sampleRate * 0.1); 
-    const rmsValues: number[] = [];
-    for (let i = 0; i < data.length; i += chunkSize) {
-      let sum = 0;
-      const end = Math.min(i + chunkSize, data.length);
-      for (let j = i; j < end; j++) sum += data[j] * data[j];
-      rmsValues.push(Math.sqrt(sum / (end - i)));
-    }
-    const sortedRms = [...rmsValues].sort((a, b) => a - b);
-    const threshold = sortedRms[Math.floor(sortedRms.length * 0.6)];
-    let iEnd = -1, oStart = -1;
-    for (let i = 0; i < rmsValues.length; i++) { if (rmsValues[i] > threshold) { iEnd = i; break; } }
-    for (let i = rmsValues.length - 1; i >= 0; i--) { if (rmsValues[i] > threshold) { oStart = i; break; } }
-    const introEnd = Math.min(buffer.duration, (iEnd * 0.1) + 10);
-    const outroStart = Math.max(0, (oStart * 0.1) - 10);
-    const detected = introEnd < outroStart && introEnd > 0 && outroStart < buffer.duration;
-    return { introEnd: detected ? introEnd : 0, outroStart: detected ? outroStart : buffer.duration, detected };
+  /** Intro and outro from the RMS envelope, snapped to whole bars with a grid (see `EngineCore.detectBoundaries`). */
+  static detectBoundaries(buffer: AudioBuffer, grid?: BeatGrid, signal?: AbortSignal): Promise<LoopBoundaries> {
+    return this.cached('detectBoundaries', buffer, [grid], signal, () => this.engine.call('detectBoundaries', [this.engine.track(buffer, signal), grid], { signal }));
   }
 
   /**
-   * Performs granular time-stretching on an AudioBuffer to preserve pitch while changing tempo.
-   * This implementation uses a classic Overlap-Add (OLA) approach.
+   * Searches around both loop points for the splice pair whose crossfaded audio matches best,
+   * so repeats join without an audible seam. See `LoopFinder`.
    */
-  private static timeStretch(buffer: AudioBuffer, rate: number): AudioBuffer {
-    if (Math.abs(rate - 1.0) < 0.01) return buffer;
-
-    const numChannels = buffer.numberOfChannels;
-    const sampleRate = buffer.sampleRate;
-    const inputLength = buffer.length;
-    const outputLength = Math.floor(inputLength / rate);
-    
-    const offlineCtx = new OfflineAudioContext(numChannels, outputLength, sampleRate);
-    const stretchedBuffer = offlineCtx.createBuffer(numChannels, outputLength, sampleRate);
-
-    // Grain settings: 60ms grains with 50% overlap for musical stability
-    const grainSize = Math.floor(sampleRate * 0.06); 
-    const overlap = 0.5;
-    const outputStride = Math.floor(grainSize * (1 - overlap));
-    
-    for (let channel = 0; channel < numChannels; channel++) {
-      const inputData = buffer.getChannelData(channel);
-      const outputData = stretchedBuffer.getChannelData(channel);
-      
-      let outPos = 0;
-      while (outPos < outputLength) {
-        // Find corresponding point in input
-        const inPos = Math.floor(outPos * rate);
-        if (inPos + grainSize > inputLength) break;
-        
-        for (let i = 0; i < grainSize; i++) {
-          const outIdx = outPos + i;
-          if (outIdx >= outputLength) break;
-          
-          // Apply a Cosine window (Hanning-like) for smooth transitions
-          const window = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (grainSize - 1)));
-          outputData[outIdx] += inputData[inPos + i] * window;
-        }
-        outPos += outputStride;
-      }
-    }
-    return stretchedBuffer;
+  static refineLoop(buffer: AudioBuffer, bounds: LoopBoundaries, crossfade: number, signal?: AbortSignal): Promise<LoopMatch> {
+    return this.cached('refineLoop', buffer, [bounds, crossfade], signal, () => this.engine.call('refineLoop', [this.engine.track(buffer, signal), bounds, crossfade], { signal }));
   }
 
-  static async process(f: AudioMetadata, m: AudioMetadata, o: ProcessingOptions, p: (v: number) => void): Promise<Blob> {
-    const tDur = o.targetDurationMinutes * 60;
-    const outputSampleRate = Math.max(f.sampleRate, m.sampleRate);
-    
-    p(5);
-    
-    // Determine the tempo adjustment rate
-    const sBpm = o.sourceBpmOverride || m.bpmInfo?.corrected || 120;
-    const rate = o.targetBpm ? o.targetBpm / sBpm : 1.0;
-    
-    // If tempo shift is requested, we must stretch the music buffer once
-    let musicBuffer = m.buffer;
-    if (Math.abs(rate - 1.0) > 0.01) {
-      musicBuffer = this.timeStretch(m.buffer, rate);
-      p(25);
-    }
-    
-    const ctx = new OfflineAudioContext(2, Math.floor(tDur * outputSampleRate), outputSampleRate);
-    const masterGain = ctx.createGain();
-    masterGain.gain.setValueAtTime(0.89, 0); 
-    masterGain.connect(ctx.destination);
-
-    const focusGainLinear = Math.pow(10, o.focusVolumeDb / 20);
-    this.renderLoopingTrack(ctx, f.buffer, tDur, focusGainLinear, o.crossfadeDuration, masterGain); 
-    p(45);
-    
-    // Boundaries need to be adjusted for the new stretched duration
-    const origBounds = o.manualBoundaries ? { ...o.manualBoundaries, detected: true } : this.detectBoundaries(m.buffer);
-    const stretchedBounds: LoopBoundaries = {
-        introEnd: origBounds.introEnd / rate,
-        outroStart: origBounds.outroStart / rate,
-        detected: origBounds.detected
-    };
-
-    const musicGainLinear = Math.pow(10, o.musicVolumeDb / 20);
-    // Render at playbackRate 1.0 because timeStretch already handled the tempo
-    this.renderMusicTrack(ctx, musicBuffer, tDur, musicGainLinear, stretchedBounds, o.crossfadeDuration, 1.0, masterGain); 
-    p(75);
-    
-    const rendered = await ctx.startRendering(); 
-    p(95);
-    
-    const blob = this.audioBufferToLossless(rendered, o.exportFormat); 
-    p(100);
-    return blob;
+  /**
+   * An analysis of `buffer` from the cache when the same audio was analysed with the same arguments
+   * before (see `AnalysisCache`), else from `compute`.
+   */
+  private static async cached<T>(kind: AnalysisKind, buffer: AudioBuffer, params: unknown[], signal: AbortSignal | undefined, compute: () => Promise<T>): Promise<T> {
+    const hash = this.pcmHashes.get(buffer) ?? await this.pcmHash(buffer, signal);
+    return this.cache.through(kind, hash, params, compute);
   }
 
-  private static renderLoopingTrack(ctx: OfflineAudioContext, b: AudioBuffer, totalDur: number, targetVolume: number, cf: number, destination: AudioNode) {
-    let cur = 0;
-    const dur = b.duration;
-    
-    while (cur < totalDur) {
-      const src = ctx.createBufferSource(); 
-      src.buffer = b;
-      const g = ctx.createGain(); 
-      src.connect(g); 
-      g.connect(destination);
-      
-      if (cur === 0) {
-        g.gain.setValueAtTime(targetVolume, 0);
-      } else {
-        g.gain.setValueAtTime(0, cur);
-        g.gain.linearRampToValueAtTime(targetVolume, cur + cf);
-      }
-      
-      const segmentEnd = cur + dur;
-      const fadeOutStart = segmentEnd - cf;
-      
-      if (segmentEnd < totalDur) {
-         g.gain.setValueAtTime(targetVolume, fadeOutStart);
-         g.gain.linearRampToValueAtTime(0, segmentEnd);
-      } else {
-         g.gain.setValueAtTime(targetVolume, Math.min(fadeOutStart, totalDur));
-         if (totalDur > fadeOutStart) {
-            g.gain.linearRampToValueAtTime(0, totalDur + cf);
-         }
-      }
-
-      src.start(cur);
-      if (segmentEnd > totalDur) src.stop(totalDur);
-      
-      cur = cur + dur - cf;
-      if (cur >= totalDur) break;
-    }
+  /**
+   * `buffer`'s PCM hash, worked out under `signal`. Only calls in the same job wait on a hash in
+   * progress, since cancelling a job cancels its hash; a cancelled one is worked out again next time.
+   */
+  private static pcmHash(buffer: AudioBuffer, signal: AbortSignal | undefined): Promise<string> {
+    let jobs = this.pendingHashes.get(buffer);
+    if (!jobs) this.pendingHashes.set(buffer, jobs = new Map());
+    let hash = jobs.get(signal);
+    if (!hash) {
+      hash = this.engine.call('hashTrack', [this.engine.track(buffer, signal)], { signal });
+      jobs.set(signal, hash);
+      hash.then(h => this.pcmHashes.set(buffer, h), () => {}).finally(() => jobs.delete(signal));
+    }
+    return hash;
   }
 
-  private static renderMusicTrack(ctx: OfflineAudioContext, b: AudioBuffer, totalDur: number, targetVolume: number, bnd: LoopBoundaries, cf: number, rate: number, destination: AudioNode) {
-    const { introEnd, outroStart } = bnd;
-    const loopStart = introEnd;
-    const loopEnd = outroStart;
-    
-    const eIntroDur = introEnd / rate;
-    const eLoopDur = (loopEnd - loopStart) / rate;
-    const eOutroDur = (b.duration - loopEnd) / rate;
-    
-    let cur = 0;
-    
-    const iSrc = ctx.createBufferSource(); 
-    iSrc.buffer = b; 
-    iSrc.playbackRate.setValueAtTime(rate, 0);
-    const iG = ctx.createGain(); 
-    iG.gain.setValueAtTime(targetVolume, 0);
-    iG.gain.setValueAtTime(targetVolume, eIntroDur - cf);
-    iG.gain.linearRampToValueAtTime(0, eIntroDur);
-    iSrc.connect(iG); 
-    iG.connect(destination);
-    iSrc.start(0, 0, introEnd);
-    cur = eIntroDur;
-
-    const lET = totalDur - eOutroDur;
-    while (cur < lET) {
-      const src = ctx.createBufferSource(); 
-      src.buffer = b; 
-      src.playbackRate.setValueAtTime(rate, 0);
-      const g = ctx.createGain(); 
-      g.connect(destination);
-      src.connect(g);
-      
-      const startTime = cur - cf;
-      g.gain.setValueAtTime(0, startTime);
-      g.gain.linearRampToValueAtTime(targetVolume, cur);
-      
-      const segmentEnd = cur + eLoopDur;
-      g.gain.setValueAtTime(targetVolume, segmentEnd - cf);
-      g.gain.linearRampToValueAtTime(0, segmentEnd);
+  private static toAudioBuffer(channels: Float32Array[], sampleRate: number): AudioBuffer {
+    const buffer = new AudioBuffer({ numberOfChannels: channels.length, length: channels[0].length, sampleRate });
+    channels.forEach((data, ch) => buffer.copyToChannel(data, ch));
+    return buffer;
+  }
 
-      src.start(startTime, Math.max(0, loopStart - (cf * rate)), (loopEnd - loopStart) + (cf * rate));
-      
-      const next = cur + eLoopDur - cf;
-      if (next >= lET) {
-        src.stop(lET);
-        cur = lET;
-      } else {
-        cur = next;
-      }
-    }
+  /** The focus/music pair; several music tracks are played through as a playlist. */
+  static async process(f: AudioMetadata, m: AudioMetadata | AudioMetadata[], o: ProcessingOptions, p: (progress: RenderProgress) => void, signal?: AbortSignal, sink?: WritableStream<Uint8Array>): Promise<RenderResult> {
+    const music = Array.isArray(m) ? m : [m];
+    const keys = music.map((_, i) => i === 0 ? 'music' : `music-${i + 1}`);
+    const tracks: Record<string, AudioMetadata> = { focus: f };
+    music.forEach((track, i) => { tracks[keys[i]] = track; });
+    return this.mix(tracks, this.pairMix(o, keys), o, p, signal, sink);
+  }
 
-    const oSrc = ctx.createBufferSource(); 
-    oSrc.buffer = b; 
-    oSrc.playbackRate.setValueAtTime(rate, 0);
-    const oG = ctx.createGain(); 
-    oG.connect(destination);
-    oSrc.connect(oG);
-    
-    const outroStartTime = cur - cf;
-    oG.gain.setValueAtTime(0, outroStartTime);
-    oG.gain.linearRampToValueAtTime(targetVolume, cur);
-    
-    oSrc.start(outroStartTime, Math.max(0, loopEnd - (cf * rate)));
+  /** The focus/music pair as a mix description (see `SessionRenderer.pairMix`). */
+  static pairMix(o: ProcessingOptions, musicTrackIds?: string[]): MixDescription {
+    return SessionRenderer.pairMix(o, musicTrackIds);
   }
 
-  private static audioBufferToLossless(buffer: AudioBuffer, format: ExportFormat): Blob {
-    const numOfChan = buffer.numberOfChannels;
-    const length = buffer.length * numOfChan * 2 + 44;
-    const bufferArray = new ArrayBuffer(length);
-    const view = new DataView(bufferArray);
-    let offset = 0, pos = 0;
-    
-    const set16 = (d: number) => { view.setUint16(offset, d, true); offset += 2; };
-    const set32 = (d: number) => { view.setUint32(offset, d, true); offset += 4; };
-    
-    set32(0x46464952); // "RIFF"
-    set32(length - 8); 
-    set32(0x45564157); // "WAVE"
-    set32(0x20746d66); // "fmt "
-    set32(16); set16(1); set16(numOfChan); set32(buffer.sampleRate);
-    set32(buffer.sampleRate * 2 * numOfChan); set16(numOfChan * 2); set16(16);
-    set32(0x61746164); // "data"
-    set32(length - offset - 4);
-    
-    const channels = [];
-    for (let i = 0; i < buffer.numberOfChannels; i++) channels.push(buffer.getChannelData(i));
-    
-    while (pos < buffer.length) {
-      for (let i = 0; i < numOfChan; i++) {
-        let s = Math.max(-1, Math.min(1, channels[i][pos]));
-        s = (s < 0 ? s * 0x8000 : s * 0x7FFF);
-        view.setInt16(offset, s, true); offset += 2;
-      }
-      pos++;
+  /**
+   * Renders every audible layer of `mix` over the session in the engine worker (see `SessionRenderer`).
+   * Layers name their audio by `trackId`, resolved against `tracks`. The encoded file streams into
+   * `sink` when one is given, so its length is not limited by memory, and is otherwise returned as a
+   * Blob. Progress is reported per stage; aborting `signal` stops the render, rejects with a
+   * CancelledError and aborts the sink.
+   */
+  static async mix(tracks: Record<string, AudioMetadata>, mix: MixDescription, o: ProcessingOptions, p: (progress: RenderProgress) => void, signal?: AbortSignal, sink?: WritableStream<Uint8Array>): Promise<RenderResult> {
+    CancelledError.throwIfAborted(signal);
+    const report = this.stageReporter(p);
+    report('preparing', 0);
+
+    // A sink that fails stops this render, and only this one
+    const failed = new AbortController();
+    const job = signal ? AbortSignal.any([signal, failed.signal]) : failed.signal;
+    const refs: Record<string, { id: number; info: TrackInfo }> = {};
+    for (const trackId of mix.layers.flatMap(l => l.playlist?.trackIds ?? (l.trackId ? [l.trackId] : []))) {
+      if (!tracks[trackId] || refs[trackId]) continue;
+      const { buffer, ...info } = tracks[trackId];
+      refs[trackId] = { id: this.engine.track(buffer, job), info };
+    }
+
+    const output = new RenderOutput(sink, () => failed.abort());
+    try {
+      const { mimeType, header, loudness } = await this.engine.call('render', [refs, mix, o], {
+        signal: job,
+        onProgress: (f, stage) => report(stage as RenderStage, f),
+        onChunk: bytes => output.write(bytes)
+      });
+      const blob = await output.close(header, mimeType);
+      report('rendering', 1);
+      return { blob, loudness };
+    } catch (err) {
+      await output.abort(err);
+      throw output.error ?? err;
     }
+  }
 
-    const type = format === 'flac_lossless' ? "audio/flac" : "audio/wav";
-    return new Blob([bufferArray], { type });
+  /** Turns (stage, fraction) pairs into RenderProgress reports with the overall figure filled in. */
+  private static stageReporter(p: (progress: RenderProgress) => void): (stage: RenderStage, fraction: number) => void {
+    const stages = Object.keys(STAGE_WEIGHTS) as RenderStage[];
+    return (stage, fraction) => {
+      const stageProgress = Math.max(0, Math.min(1, fraction));
+      const before = stages.slice(0, stages.indexOf(stage)).reduce((sum, s) => sum + STAGE_WEIGHTS[s], 0);
+      p({ stage, stageProgress, overall: Math.round((before + STAGE_WEIGHTS[stage] * stageProgress) * 100) });
+    };
   }
 }
@@ -0,0 +1,31 @@
+
+import { describe, expect, it } from 'vitest';
+import { BeatTracker } from './beatTracker';
+import { EngineCore } from './engineCore';
+import { clickTrack } from './testSignals';
+
+const SR = 44100;
+const START = 0.1;
+
+describe('BeatTracker', () => {
+  // Tempi the grid once moved an octave away from the analysed tempo, and ones at the ends of the range
+  it.each([42, 50, 120, 190, 200, 215, 238])('keeps the analysed tempo of a %d BPM track', async bpm => {
+    const analysis = await EngineCore.analyzeTrack([clickTrack(bpm, 30, SR, { start: START, accent: true })], SR, 'accurate');
+    const grid = analysis.beatGrid!;
+    expect(grid.bpm / analysis.bpmInfo!.corrected).toBeCloseTo(1, 2);
+    expect(grid.bpm / bpm).toBeCloseTo(1, 2);
+
+    // Downbeats fall on the accented kicks, a bar apart
+    const bar = (4 * 60) / bpm;
+    for (const d of grid.downbeats) {
+      const bars = (d - START) / bar;
+      expect(Math.abs(bars - Math.round(bars)) * bar).toBeLessThan(0.02);
+    }
+  });
+
+  it('estimates the tempo itself without a hint', () => {
+    const grid = BeatTracker.track([clickTrack(96, 20, SR)], SR);
+    expect(grid.bpm).toBeCloseTo(96, 0);
+    expect(grid.beats.length).toBeGreaterThan(28);
+  });
+});
@@ -0,0 +1,98 @@
+
+import { BeatGrid } from '../types';
+import { OnsetDetector, OnsetEnvelope } from './onset';
+import { TempoEstimator } from './tempoEstimator';
+
+const BEATS_PER_BAR = 4;
+// Weight of the tempo-consistency penalty against onset strength in the beat path
+const TIGHTNESS = 100;
+
+/**
+ * Beat and downbeat tracking. Beats follow Ellis' dynamic-programming tracker: the best path
+ * through the onset envelope where each step is penalised by how far its interval strays (in log
+ * terms) from the tempo period. Downbeats are the beat phase, modulo the bar, whose beats carry the
+ * most bass onset energy, since kicks and bass notes favour the one. The tempo is the analysed one
+ * when given, octave and all, so the grid agrees with it; otherwise the envelope's own estimate.
+ */
+export class BeatTracker {
+  static track(channels: Float32Array[], sampleRate: number, bpmHint?: number): BeatGrid {
+    const env = OnsetDetector.analyze(channels, sampleRate);
+    return this.trackEnvelope(env, bpmHint);
+  }
+
+  static trackEnvelope(env: OnsetEnvelope, bpmHint?: number): BeatGrid {
+    const bpm = bpmHint && bpmHint > 0 ? bpmHint : TempoEstimator.estimate(env).bpm;
+    const period = (60 / bpm) * env.frameRate;
+    const frames = this.beatPath(env.strength, period);
+    const beats = frames.map(f => env.offset + this.refinePeak(env.strength, f) / env.frameRate);
+
+    const phase = this.downbeatPhase(frames, env.bass);
+    const downbeats = beats.filter((_, i) => i % BEATS_PER_BAR === phase);
+    return { bpm: Math.round(this.fittedTempo(beats, bpm) * 10) / 10, beatsPerBar: BEATS_PER_BAR, beats, downbeats };
+  }
+
+  /** Sub-frame position of the onset peak at frame `f`, by parabolic interpolation. */
+  private static refinePeak(strength: Float32Array, f: number): number {
+    if (f <= 0 || f >= strength.length - 1) return f;
+    const a = strength[f - 1], b = strength[f], c = strength[f + 1];
+    const denom = a - 2 * b + c;
+    if (denom >= 0) return f;
+    return f + Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denom));
+  }
+
+  /** Least-squares slope of beat time against beat index, which averages out frame quantisation. */
+  private static fittedTempo(beats: number[], fallback: number): number {
+    const n = beats.length;
+    if (n < 2) return fallback;
+    const meanI = (n - 1) / 2;
+    const meanT = beats.reduce((a, b) => a + b, 0) / n;
+    let num = 0, den = 0;
+    beats.forEach((t, i) => {
+      num += (i - meanI) * (t - meanT);
+      den += (i - meanI) * (i - meanI);
+    });
+    return num > 0 ? (60 * den) / num : fallback;
+  }
+
+  private static beatPath(strength: Float32Array, period: number): number[] {
+    const n = strength.length;
+    if (n === 0) return [];
+    const score = new Float64Array(n);
+    const backlink = new Int32Array(n).fill(-1);
+    const minStep = Math.max(1, Math.round(period / 2));
+    const maxStep = Math.round(period * 2);
+
+    for (let t = 0; t < n; t++) {
+      let bestPrev = -1, bestScore = -Infinity;
+      for (let prev = Math.max(0, t - maxStep); prev <= t - minStep; prev++) {
+        const penalty = Math.log((t - prev) / period);
+        const s = score[prev] - TIGHTNESS * penalty * penalty;
+        if (s > bestScore) {
+          bestScore = s;
+          bestPrev = prev;
+        }
+      }
+      score[t] = strength[t] + (bestPrev >= 0 ? Math.max(0, bestScore) : 0);
+      if (bestPrev >= 0 && bestScore > 0) backlink[t] = bestPrev;
+    }
+
+    // Finish on the best-scoring frame within the last period
+    let end = n - 1;
+    for (let t = Math.max(0, n - Math.round(period)); t < n; t++) if (score[t] > score[end]) end = t;
+    const path: number[] = [];
+    for (let t = end; t >= 0; t = backlink[t]) path.push(t);
+    return path.reverse();
+  }
+
+  private static downbeatPhase(frames: number[], bass: Float32Array): number {
+    const totals = new Float64Array(BEATS_PER_BAR);
+    frames.forEach((f, i) => {
+      // Take the strongest bass onset within a frame either side of the beat
+      const v = Math.max(bass[f - 1] ?? 0, bass[f], bass[f + 1] ?? 0);
+      totals[i % BEATS_PER_BAR] += v;
+    });
+    let phase = 0;
+    for (let p = 1; p < BEATS_PER_BAR; p++) if (totals[p] > totals[phase]) phase = p;
+    return phase;
+  }
+}
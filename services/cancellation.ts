@@ -0,0 +1,15 @@
+
+/**
+ * Rejection reason for engine work stopped through its job's AbortSignal, so callers can tell a
+ * deliberate stop from a failure.
+ */
+export class CancelledError extends Error {
+  constructor(message = 'Engine work was cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+
+  static throwIfAborted(signal?: AbortSignal) {
+    if (signal?.aborted) throw new CancelledError();
+  }
+}
@@ -0,0 +1,81 @@
+
+import { CrossfadeCurve, CrossfadeSettings } from '../types';
+import { FadeShape } from './sessionMixer';
+
+// Correlation at a splice above which the two sides add like one signal, so an equal-gain fade keeps
+// the level; below it equal-power does. At √2 - 1 either is off by the same 1.5 dB in the middle.
+const EQUAL_GAIN_CORRELATION = Math.SQRT2 - 1;
+
+// Fade-in shapes over 0–1 (fade-outs mirror them); linear has none, being a plain ramp
+const SHAPES: Record<Exclude<CrossfadeCurve, 'auto' | 'linear' | 'beat_synced'>, FadeShape> = {
+  equal_power: x => Math.sin((x * Math.PI) / 2),
+  s_curve: x => (1 - Math.cos(x * Math.PI)) / 2,
+  logarithmic: x => Math.log10(1 + 9 * x)
+};
+
+// Normalised correlation of the audio ending at `outEnd` and at `inEnd` over `seconds`, source seconds
+export type SpliceCorrelation = (outEnd: number, inEnd: number, seconds: number) => number;
+
+/** One kind of transition as laid out: its length, and the fade shape for a splice between two source positions. */
+export interface Splice {
+  seconds: number;
+  shape: (outEnd: number, inEnd: number) => FadeShape | undefined;
+}
+
+/**
+ * Crossfade lengths and shapes. A crossfade overlaps the audio leading up to the splice on the
+ * outgoing side with the audio leading up to it on the incoming side; how the two add decides which
+ * shape holds the level, so 'auto' measures their correlation.
+ */
+export class Crossfade {
+  /**
+   * `settings` resolved against the default length. Beat-synced fades are rounded to whole beats of
+   * `beat` seconds, or stay as they are without a tempo; 'auto' needs `correlate`, and without it
+   * assumes unrelated audio.
+   */
+  static splice(settings: CrossfadeSettings | undefined, defaultSeconds: number, beat?: number, correlate?: SpliceCorrelation): Splice {
+    const curve = settings?.curve ?? 'auto';
+    let seconds = Math.max(0, settings?.seconds ?? defaultSeconds);
+    if (curve === 'beat_synced' && beat) seconds = Math.max(1, Math.round(seconds / beat)) * beat;
+    if (curve !== 'auto') {
+      const shape = this.shape(curve);
+      return { seconds, shape: () => shape };
+    }
+    const chosen = new Map<string, FadeShape | undefined>();
+    return {
+      seconds,
+      shape: (outEnd, inEnd) => {
+        const key = `${outEnd}:${inEnd}`;
+        if (!chosen.has(key)) chosen.set(key, correlate && correlate(outEnd, inEnd, seconds) >= EQUAL_GAIN_CORRELATION ? undefined : SHAPES.equal_power);
+        return chosen.get(key);
+      }
+    };
+  }
+
+  /** The fade shape of a fixed curve ('auto' has none of its own and counts as equal-power). */
+  static shape(curve: CrossfadeCurve): FadeShape | undefined {
+    if (curve === 'linear') return undefined;
+    return curve === 'auto' || curve === 'beat_synced' ? SHAPES.equal_power : SHAPES[curve];
+  }
+
+  /** Zero-lag normalised correlation of the channel sums ending at `outEnd` and `inEnd`, over `seconds`. */
+  static correlation(channels: Float32Array[], sampleRate: number, outEnd: number, inEnd: number, seconds: number): number {
+    const length = channels[0].length;
+    const a = Math.min(length, Math.round(outEnd * sampleRate));
+    const b = Math.min(length, Math.round(inEnd * sampleRate));
+    const n = Math.min(a, b, Math.round(seconds * sampleRate));
+    if (n <= 0) return 0;
+    let ab = 0, aa = 0, bb = 0;
+    for (let i = 0; i < n; i++) {
+      let x = 0, y = 0;
+      for (const ch of channels) {
+        x += ch[a - n + i];
+        y += ch[b - n + i];
+      }
+      ab += x * y;
+      aa += x * x;
+      bb += y * y;
+    }
+    return aa > 0 && bb > 0 ? ab / Math.sqrt(aa * bb) : 0;
+  }
+}
@@ -0,0 +1,165 @@
+
+import { CancelledError } from './cancellation';
+import type { EngineAck, EngineOp, EngineOps, EngineRequest, EngineResponse, OpContext } from './engineWorker';
+
+type Args<K extends EngineOp> = EngineOps[K] extends (ctx: OpContext, ...args: infer A) => unknown ? A : never;
+type Result<K extends EngineOp> = Awaited<ReturnType<EngineOps[K]>>;
+
+export interface CallOptions {
+  onStatus?: (status: string) => void;
+  onProgress?: (fraction: number, stage?: string) => void;
+  // Receives the bytes of a streamed result, in order; the op is held back while too many of them are
+  // unwritten, and a returned promise counts its bytes as unwritten until it resolves
+  onChunk?: (bytes: Uint8Array<ArrayBuffer>) => void | Promise<void>;
+  signal?: AbortSignal;
+  // Buffers of the arguments to move into the worker instead of copying
+  transfer?: Transferable[];
+}
+
+// A call waiting on the worker, settled with the result of its op
+interface PendingCall<K extends EngineOp = EngineOp> {
+  resolve: (value: Result<K>) => void;
+  reject: (error: Error) => void;
+  options: CallOptions;
+}
+
+// A worker and what has been loaded into it, for the job whose signal it runs under
+interface Lane {
+  signal?: AbortSignal;
+  worker: Worker | null;
+  // Track ids loaded into this worker
+  loaded: Set<number>;
+  // Ids of the calls running or queued in it
+  calls: Set<number>;
+  idle?: ReturnType<typeof setTimeout>;
+}
+
+// A job's worker is kept this long after its last call settles, for the job's next call to find its tracks loaded
+const IDLE_LANE_MS = 5000;
+
+/**
+ * Main-thread side of the engine worker. Each call posts one request and resolves with its result;
+ * status messages go to the call's callback meanwhile. Decoded tracks are copied into a worker once
+ * (see `track`) and referred to by id afterwards. Calls made with the same AbortSignal, a job, share
+ * a worker of their own, since terminating a worker is the only way to stop a DSP loop mid-run:
+ * aborting the signal terminates that worker alone and rejects the job's calls with a CancelledError,
+ * while other jobs run on. Calls without a signal share one long-lived worker.
+ */
+export class EngineClient {
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingCall>();
+  private readonly trackIds = new WeakMap<AudioBuffer, number>();
+  // Workers by the signal of the job they run; calls without one go to the `undefined` lane
+  private readonly lanes = new Map<AbortSignal | undefined, Lane>();
+  private readonly released = new FinalizationRegistry<number>(id => {
+    for (const lane of this.lanes.values()) {
+      if (lane.loaded.delete(id)) this.post(lane, { id: 0, op: 'release', args: [id] });
+    }
+  });
+
+  call<K extends EngineOp>(op: K, args: Args<K>, options: CallOptions = {}): Promise<Result<K>> {
+    const { signal } = options;
+    if (signal?.aborted) return Promise.reject(new CancelledError());
+    const id = this.nextId++;
+    const lane = this.lane(signal);
+    const abort = () => this.stop(lane, new CancelledError());
+    signal?.addEventListener('abort', abort, { once: true });
+    return new Promise<Result<K>>((resolve, reject) => {
+      const call: PendingCall<K> = { resolve, reject, options };
+      this.pending.set(id, call);
+      lane.calls.add(id);
+      this.post(lane, { id, op, args }, options.transfer);
+    }).finally(() => {
+      signal?.removeEventListener('abort', abort);
+      lane.calls.delete(id);
+      this.idle(lane);
+    });
+  }
+
+  /**
+   * Id under which `buffer`'s channel data is held in the worker of the job `signal` belongs to,
+   * loading a copy there first if needed; pass the signal of the call the id is for.
+   */
+  track(buffer: AudioBuffer, signal?: AbortSignal): number {
+    let id = this.trackIds.get(buffer);
+    if (id === undefined) {
+      id = this.nextId++;
+      this.trackIds.set(buffer, id);
+      this.released.register(buffer, id);
+    }
+    const lane = this.lane(signal);
+    if (!lane.loaded.has(id)) {
+      const channels = [];
+      for (let ch = 0; ch < buffer.numberOfChannels; ch++) channels.push(buffer.getChannelData(ch).slice());
+      lane.loaded.add(id);
+      this.post(lane, { id: 0, op: 'load', args: [id, channels, buffer.sampleRate] }, channels.map(c => c.buffer));
+    }
+    this.idle(lane);
+    return id;
+  }
+
+  private lane(signal: AbortSignal | undefined): Lane {
+    let lane = this.lanes.get(signal);
+    if (!lane) {
+      lane = { signal, worker: null, loaded: new Set(), calls: new Set() };
+      this.lanes.set(signal, lane);
+    }
+    clearTimeout(lane.idle);
+    return lane;
+  }
+
+  /** Closes a job's worker once it has had no calls for IDLE_LANE_MS; the shared worker stays. */
+  private idle(lane: Lane) {
+    if (!lane.signal || lane.calls.size > 0 || this.lanes.get(lane.signal) !== lane) return;
+    clearTimeout(lane.idle);
+    lane.idle = setTimeout(() => {
+      if (lane.calls.size === 0) this.stop(lane, new CancelledError());
+    }, IDLE_LANE_MS);
+  }
+
+  private stop(lane: Lane, error: Error) {
+    if (this.lanes.get(lane.signal) !== lane) return;
+    this.lanes.delete(lane.signal);
+    clearTimeout(lane.idle);
+    lane.worker?.terminate();
+    const calls = [...lane.calls].map(id => this.pending.get(id)!);
+    lane.calls.forEach(id => this.pending.delete(id));
+    lane.calls.clear();
+    calls.forEach(call => call.reject(error));
+  }
+
+  private post(lane: Lane, request: EngineRequest | EngineAck, transfer: Transferable[] = []) {
+    if (!lane.worker) {
+      const worker = new Worker(new URL('./engineWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<EngineResponse>) => this.receive(lane, e.data);
+      worker.onerror = e => this.stop(lane, new Error(e.message || 'The engine worker failed'));
+      lane.worker = worker;
+    }
+    lane.worker.postMessage(request, transfer);
+  }
+
+  private receive(lane: Lane, message: EngineResponse) {
+    const call = this.pending.get(message.id);
+    if (!call) return;
+    if (message.type === 'status') {
+      call.options.onStatus?.(message.status);
+      return;
+    }
+    if (message.type === 'progress') {
+      call.options.onProgress?.(message.fraction, message.stage);
+      return;
+    }
+    if (message.type === 'chunk') {
+      const { id, bytes } = message;
+      const ack = bytes.length;
+      void Promise.resolve(call.options.onChunk?.(bytes)).then(() => {
+        if (this.lanes.get(lane.signal) === lane) this.post(lane, { id, ack });
+      });
+      return;
+    }
+    this.pending.delete(message.id);
+    // The worker answers each id with the result of the op it was posted with
+    if (message.type === 'result') call.resolve(message.result as Result<EngineOp>);
+    else call.reject(new Error(message.message));
+  }
+}
@@ -0,0 +1,346 @@
+
+import { BeatGrid, BpmInfo, BpmWindow, DetectionMode, ExportFormat, LoopBoundaries, ProcessingOptions, ProgramKeyframe, SessionTrack, StretchAlgorithm, TempoPoint, ToneSettings, TrackAnalysis } from '../types';
+import { Mp3Encoder } from './mp3Encoder';
+import { FlacEncoder } from './flacEncoder';
+import { WavEncoder } from './wavEncoder';
+import { Quantizer } from './quantizer';
+import { TimeStretcher } from './timeStretch';
+import { Program, TimeWarp } from './program';
+import { BeatTracker } from './beatTracker';
+import { OnsetDetector } from './onset';
+import { TempoMap } from './tempoMap';
+import { TempoEstimator } from './tempoEstimator';
+import { EntrainmentAnalyzer } from './entrainment';
+import { KeyDetector } from './keyDetector';
+import { ToneGenerator } from './toneGenerator';
+
+const FAST_EXCERPT_SECONDS = 60;
+// From this length on, tempo comes from evenly spaced windows rather than the whole file
+const LONG_FILE_SECONDS = 600;
+const WINDOW_SECONDS = 60;
+const MAX_WINDOWS = 48;
+const FAST_WINDOWS = 12;
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  wav_lossless: 'wav',
+  flac_lossless: 'flac',
+  mp3_high: 'mp3',
+  mp3_standard: 'mp3'
+};
+
+// An export format written block by block: mastered float frames in, file bytes out
+export interface OutputEncoder {
+  readonly mimeType: string;
+  // The bytes the file opens with. Once finished, some formats fill in what only the end revealed
+  // (FLAC's length and MD5, MP3's frame count and seek table), and a sink that can seek writes the
+  // new header over the first one.
+  header(): Uint8Array<ArrayBuffer>;
+  encode(block: Float32Array[]): Uint8Array<ArrayBuffer>;
+  finish(): Uint8Array<ArrayBuffer>;
+}
+
+// A tempo program's output→content warp for one layer, as plain data so it can be rebuilt anywhere
+export interface ProgramWarp {
+  program: ProgramKeyframe[];
+  // Session second the layer starts at, the tempo its source plays at, and the layer's length
+  start: number;
+  sourceBpm: number;
+  duration: number;
+}
+
+/**
+ * The engine's analysis, stretching and encoding steps on raw channel data. Nothing here touches
+ * Web Audio, so it runs the same on the main thread, in the engine worker or anywhere else.
+ */
+export class EngineCore {
+  static async analyzeTrack(channels: Float32Array[], sampleRate: number, mode: DetectionMode, onStatusUpdate?: (status: string) => void): Promise<TrackAnalysis> {
+    const duration = channels[0].length / sampleRate;
+    const analysis: TrackAnalysis = {};
+
+    analysis.bpmInfo = await this.analyzeBpm(channels, sampleRate, mode, onStatusUpdate);
+    if (duration < LONG_FILE_SECONDS) {
+      onStatusUpdate?.("Tracking Beat Grid...");
+      analysis.beatGrid = BeatTracker.track(channels, sampleRate, analysis.bpmInfo.corrected);
+    }
+    if (mode === 'tempo_map') {
+      onStatusUpdate?.("Mapping Tempo Drift...");
+      analysis.tempoMap = this.analyzeTempoMap(channels, sampleRate, analysis.beatGrid?.bpm ?? analysis.bpmInfo.corrected, analysis.bpmInfo.windows);
+    }
+
+    onStatusUpdate?.("Detecting Key...");
+    analysis.key = KeyDetector.analyze(channels, sampleRate);
+
+    onStatusUpdate?.("Measuring Carriers And Pulses...");
+    analysis.entrainment = EntrainmentAnalyzer.analyze(channels, sampleRate);
+    analysis.frequency = analysis.entrainment.binauralHz ?? analysis.entrainment.modulationHz;
+    if (analysis.frequency) {
+      analysis.pulseRate = analysis.frequency * 60;
+      analysis.divisorBpms = this.divisorBpms(analysis.pulseRate);
+    }
+
+    return analysis;
+  }
+
+  /**
+   * SHA-256 over a track's decoded samples and rate, in hex. Unlike a hash of the file it is the same
+   * for the same audio in any container, which is what analysis results depend on.
+   */
+  static async pcmHash(channels: Float32Array[], sampleRate: number): Promise<string> {
+    // The rate and channel count, then each channel's own digest
+    const combined = new Uint8Array(16 + 32 * channels.length);
+    combined.set(new Uint8Array(new Float64Array([sampleRate, channels.length]).buffer));
+    for (const [ch, data] of channels.entries()) combined.set(new Uint8Array(await crypto.subtle.digest('SHA-256', data)), 16 + 32 * ch);
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', combined));
+    return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  /** Music tempi that land a whole number of pulses on each beat. */
+  static divisorBpms(pulseRate: number): number[] {
+    return [6, 8, 10, 12].map(n => Math.round((pulseRate / n) * 10) / 10);
+  }
+
+  /**
+   * A focus layer built procedurally instead of decoded: a short periodic clip flagged `seamlessLoop`,
+   * so a session loops it like any uploaded focus file but without crossfades.
+   */
+  static synthesizeFocus(settings: ToneSettings, sampleRate: number, clipSeconds: number): SessionTrack {
+    const channels = ToneGenerator.render(settings, sampleRate, clipSeconds);
+    const pulseRate = settings.beatHz * 60;
+
+    return {
+      channels,
+      sampleRate,
+      info: {
+        name: ToneGenerator.describe(settings),
+        duration: channels[0].length / sampleRate,
+        sampleRate,
+        format: 'SYNTH',
+        frequency: settings.beatHz,
+        entrainment: ToneGenerator.entrainment(settings),
+        pulseRate,
+        divisorBpms: this.divisorBpms(pulseRate),
+        seamlessLoop: true,
+        tone: settings
+      }
+    };
+  }
+
+  /** Local BPM over time, searched around `bpm` so the whole map stays in one tempo octave. */
+  static analyzeTempoMap(channels: Float32Array[], sampleRate: number, bpm: number, windows?: BpmWindow[]): TempoPoint[] {
+    // Long files are mapped from their analysis windows, one point at each window's centre
+    if (windows?.length) {
+      return windows.map(w => ({
+        time: w.start + w.duration / 2,
+        bpm: Math.round(TempoEstimator.foldTo(w.bpm, bpm) * 100) / 100
+      }));
+    }
+    return TempoMap.analyze(OnsetDetector.analyze(channels, sampleRate), bpm);
+  }
+
+  /**
+   * Tempo from a multi-band onset tempogram (see `TempoEstimator`). Fast mode analyses a minute from
+   * the middle of the track; the other modes use all of it. Each sub-band's own estimate is a pass,
+   * and their spread feeds the confidence along with the strength of the periodicity itself.
+   * Files of ten minutes or more go through `analyzeBpmWindowed` instead.
+   */
+  static async analyzeBpm(
+    channels: Float32Array[],
+    sampleRate: number,
+    mode: DetectionMode,
+    onStatusUpdate?: (status: string) => void
+  ): Promise<BpmInfo> {
+    const length = channels[0].length;
+    if (length >= LONG_FILE_SECONDS * sampleRate) return this.analyzeBpmWindowed(channels, sampleRate, mode, onStatusUpdate);
+    const excerpt = mode === 'fast' ? Math.min(length, FAST_EXCERPT_SECONDS * sampleRate) : length;
+    const from = Math.floor((length - excerpt) / 2);
+
+    onStatusUpdate?.("Measuring Multi-Band Onsets...");
+    const env = OnsetDetector.analyze(channels.map(c => c.subarray(from, from + excerpt)), sampleRate);
+    onStatusUpdate?.("Reading Tempogram...");
+    const estimate = TempoEstimator.estimate(env);
+
+    const passes = estimate.bandBpms.map(b => Math.round(TempoEstimator.foldTo(b, estimate.bpm) * 10) / 10);
+    const filteredPasses = passes.filter(b => Math.abs(b / estimate.bpm - 1) < 0.02);
+    const mean = passes.reduce((a, b) => a + b, 0) / (passes.length || 1);
+    const stdDev = Math.sqrt(passes.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (passes.length || 1));
+    const confidence: 'high' | 'medium' | 'low' = estimate.confidence >= 0.6 ? 'high' : estimate.confidence >= 0.3 ? 'medium' : 'low';
+
+    return {
+      raw: Math.round(estimate.bpm * 100) / 100,
+      corrected: Math.round(estimate.bpm * 10) / 10,
+      candidates: estimate.candidates.map(c => Math.round(c * 10) / 10),
+      stdDev: Math.round(stdDev * 100) / 100,
+      confidence,
+      algorithmsUsed: ["Multi-Band Spectral Flux", "Comb Tempogram"],
+      allPasses: passes,
+      filteredPasses,
+      modeUsed: mode
+    };
+  }
+
+  /**
+   * Tempo of a long file from WINDOW_SECONDS windows spread evenly across it (FAST_WINDOWS of them in
+   * fast mode, otherwise one per window length up to MAX_WINDOWS), so memory and time stay bounded
+   * however long the file is. Each window is estimated on its own, yielding between windows, and the
+   * result is the confidence-weighted consensus; the share of confidence behind it sets the label.
+   */
+  static async analyzeBpmWindowed(
+    channels: Float32Array[],
+    sampleRate: number,
+    mode: DetectionMode,
+    onStatusUpdate?: (status: string) => void
+  ): Promise<BpmInfo> {
+    const length = channels[0].length;
+    const win = Math.min(length, Math.round(WINDOW_SECONDS * sampleRate));
+    const fit = Math.max(1, Math.floor(length / win));
+    const count = Math.min(fit, mode === 'fast' ? FAST_WINDOWS : MAX_WINDOWS);
+    const stride = count > 1 ? (length - win) / (count - 1) : 0;
+
+    const windows: BpmWindow[] = [];
+    for (let w = 0; w < count; w++) {
+      onStatusUpdate?.(`Analyzing Window ${w + 1}/${count}...`);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const from = Math.round(w * stride);
+      const estimate = TempoEstimator.estimate(OnsetDetector.analyze(channels.map(c => c.subarray(from, from + win)), sampleRate));
+      windows.push({
+        start: Math.round((from / sampleRate) * 100) / 100,
+        duration: Math.round((win / sampleRate) * 100) / 100,
+        bpm: Math.round(estimate.bpm * 100) / 100,
+        confidence: Math.round(estimate.confidence * 100) / 100
+      });
+    }
+
+    onStatusUpdate?.("Combining Windows...");
+    const { bpm, support } = TempoEstimator.consensus(windows);
+    const passes = windows.map(w => Math.round(TempoEstimator.foldTo(w.bpm, bpm) * 10) / 10);
+    const filteredPasses = passes.filter(b => Math.abs(b / bpm - 1) < 0.02);
+    const mean = filteredPasses.reduce((a, b) => a + b, 0) / (filteredPasses.length || 1);
+    const stdDev = Math.sqrt(filteredPasses.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (filteredPasses.length || 1));
+    const meanConfidence = windows.reduce((a, w) => a + w.confidence, 0) / windows.length;
+    const score = support * meanConfidence;
+    const confidence: 'high' | 'medium' | 'low' = score >= 0.6 ? 'high' : score >= 0.3 ? 'medium' : 'low';
+    // Tempi other windows settled on, by how many windows chose them
+    const others = new Map<number, number>();
+    for (const p of passes) if (Math.abs(p / bpm - 1) >= 0.02) others.set(p, (others.get(p) ?? 0) + 1);
+
+    return {
+      raw: Math.round(bpm * 100) / 100,
+      corrected: Math.round(bpm * 10) / 10,
+      candidates: [...others.entries()].sort((a, b) => b[1] - a[1]).map(([p]) => p).slice(0, 3),
+      stdDev: Math.round(stdDev * 100) / 100,
+      confidence,
+      algorithmsUsed: ["Multi-Band Spectral Flux", "Comb Tempogram", "Windowed Consensus"],
+      allPasses: passes,
+      filteredPasses,
+      modeUsed: mode,
+      windows
+    };
+  }
+
+  /**
+   * Intro and outro from the RMS envelope. With a beat grid the loop between them is then snapped
+   * to whole bars (see `snapToBars`), so repeats stay in phase with the groove.
+   */
+  static detectBoundaries(channels: Float32Array[], sampleRate: number, grid?: BeatGrid): LoopBoundaries {
+    const data = channels[0];
+    const duration = data.length / sampleRate;
+    const chunkSize = Math.floor(sampleRate * 0.1);
+    const rmsValues: number[] = [];
+    for (let i = 0; i < data.length; i += chunkSize) {
+      let sum = 0;
+      const end = Math.min(i + chunkSize, data.length);
+      for (let j = i; j < end; j++) sum += data[j] * data[j];
+      rmsValues.push(Math.sqrt(sum / (end - i)));
+    }
+    const sortedRms = [...rmsValues].sort((a, b) => a - b);
+    const threshold = sortedRms[Math.floor(sortedRms.length * 0.6)];
+    let iEnd = -1, oStart = -1;
+    for (let i = 0; i < rmsValues.length; i++) { if (rmsValues[i] > threshold) { iEnd = i; break; } }
+    for (let i = rmsValues.length - 1; i >= 0; i--) { if (rmsValues[i] > threshold) { oStart = i; break; } }
+    const introEnd = Math.min(duration, (iEnd * 0.1) + 10);
+    const outroStart = Math.max(0, (oStart * 0.1) - 10);
+    const detected = introEnd < outroStart && introEnd > 0 && outroStart < duration;
+    const bounds = { introEnd: detected ? introEnd : 0, outroStart: detected ? outroStart : duration, detected };
+    return grid ? this.snapToBars(bounds, grid) : bounds;
+  }
+
+  /**
+   * Moves both loop points to the nearest downbeats, then shortens the loop to whole phrases:
+   * a multiple of 8 bars where it fits, else 4, else any whole number of bars.
+   */
+  static snapToBars(bounds: LoopBoundaries, grid: BeatGrid): LoopBoundaries {
+    const bars = grid.downbeats;
+    if (bars.length < 2) return bounds;
+    const nearest = (t: number) => bars.reduce((best, b, i) => (Math.abs(b - t) < Math.abs(bars[best] - t) ? i : best), 0);
+
+    const first = nearest(bounds.introEnd);
+    const available = nearest(bounds.outroStart) - first;
+    if (available < 1) return bounds;
+    const phrase = [8, 4, 1].find(p => available >= p)!;
+    const count = Math.floor(available / phrase) * phrase;
+    const introEnd = bars[first];
+    const outroStart = bars[first + count];
+    return { introEnd, outroStart, detected: bounds.detected, barDuration: (outroStart - introEnd) / count };
+  }
+
+  /** Output→source time map of `flattenTempo` for a `duration`-second source. */
+  static tempoWarp(map: TempoPoint[], bpm: number, duration: number): TimeWarp {
+    const fastest = Math.max(...map.map(p => p.bpm));
+    return new TimeWarp((_, c) => bpm / TempoMap.bpmAt(map, c), (duration * fastest) / bpm);
+  }
+
+  /**
+   * Variable-rate stretch that evens out a drifting tempo: each moment of the source is played at
+   * `bpm / localBpm`, so every beat of the result is the same length (see `tempoWarp`).
+   */
+  static flattenTempo(channels: Float32Array[], sampleRate: number, map: TempoPoint[], bpm: number, algorithm: StretchAlgorithm = 'wsola', onProgress?: (fraction: number) => void): Float32Array[] {
+    const duration = channels[0].length / sampleRate;
+    const warp = this.tempoWarp(map, bpm, duration);
+    const outLength = Math.round(warp.toOutput(duration) * sampleRate);
+    return TimeStretcher.stretchWithMap(channels, sampleRate, outLength, outPos => warp.toContent(outPos / sampleRate) * sampleRate, algorithm, { onProgress });
+  }
+
+  static programWarp(w: ProgramWarp): TimeWarp {
+    const bpmAt = Program.curve(w.program, 'bpm')!;
+    return new TimeWarp(t => bpmAt(w.start + t) / w.sourceBpm, w.duration);
+  }
+
+  /**
+   * One music segment under a tempo program: `channels` (the segment's source audio, which begins
+   * at content time `start`) stretched to `outLength` frames from session-relative time `tStart`.
+   */
+  static stretchSegment(channels: Float32Array[], sampleRate: number, outLength: number, warp: TimeWarp, tStart: number, start: number, algorithm: StretchAlgorithm): Float32Array[] {
+    return TimeStretcher.stretchWithMap(channels, sampleRate, outLength, outPos => (warp.toContent(tStart + outPos / sampleRate) - start) * sampleRate, algorithm);
+  }
+
+  /** The file extension for an export format, without the dot. */
+  static fileExtension(format: ExportFormat): string {
+    return FILE_EXTENSIONS[format];
+  }
+
+  /** A block-by-block writer for `o`'s export format, for a stream of `frames` frames. */
+  static async outputEncoder(numChannels: number, sampleRate: number, frames: number, o: ProcessingOptions): Promise<OutputEncoder> {
+    const format = o.exportFormat;
+    const none = () => new Uint8Array(0);
+
+    if (format === 'mp3_high' || format === 'mp3_standard') {
+      const mp3 = await Mp3Encoder.create(numChannels, sampleRate, format);
+      return { mimeType: 'audio/mpeg', header: () => mp3.header(), encode: block => mp3.encode(block), finish: () => mp3.finalize() };
+    }
+
+    const bitDepth = o.bitDepth ?? 16;
+    if (format === 'wav_lossless' && bitDepth === 32) {
+      const header = WavEncoder.header(numChannels, sampleRate, 32, frames);
+      return { mimeType: 'audio/wav', header: () => header, encode: block => WavEncoder.floatFrames(block), finish: none };
+    }
+
+    const bits = bitDepth === 16 ? 16 : 24;
+    const quantizer = new Quantizer(numChannels, bits, { dither: o.dither ?? true, noiseShaping: o.noiseShaping ?? false });
+    if (format === 'flac_lossless') {
+      const flac = new FlacEncoder(numChannels, sampleRate, bits, o.flacCompressionLevel);
+      return { mimeType: 'audio/flac', header: () => flac.header(), encode: block => flac.encode(quantizer.process(block)), finish: () => flac.finalize() };
+    }
+    const header = WavEncoder.header(numChannels, sampleRate, bits, frames);
+    return { mimeType: 'audio/wav', header: () => header, encode: block => WavEncoder.pcmFrames(quantizer.process(block), bits), finish: none };
+  }
+}
@@ -0,0 +1,140 @@
+
+import { BeatGrid, BpmWindow, DecodedAudio, DetectionMode, LoopBoundaries, MixDescription, ProcessingOptions, SessionTrack, TrackInfo } from '../types';
+import { EngineCore } from './engineCore';
+import { LoopFinder } from './loopFinder';
+import { FileDecoder } from './fileDecoder';
+import { SessionRenderer } from './sessionRenderer';
+
+export interface OpContext {
+  status: (status: string) => void;
+  // Fraction of the op done so far; ops with several phases name the one it belongs to
+  progress: (fraction: number, stage?: string) => void;
+  // Hands bytes of a streamed result to the caller as soon as they exist; resolves once the caller has
+  // written enough of them for the op to go on (see HIGH_WATER_BYTES)
+  emit: (bytes: Uint8Array<ArrayBuffer>) => Promise<void>;
+}
+
+// Bytes of a streamed result the caller may hold unwritten before the op waits for it to catch up
+const HIGH_WATER_BYTES = 8 << 20;
+
+// Tracks the client has loaded, by id, so long files cross the thread boundary only once
+const tracks = new Map<number, DecodedAudio>();
+
+const track = (id: number): DecodedAudio => {
+  const t = tracks.get(id);
+  if (!t) throw new Error(`Track ${id} is not loaded in the engine worker`);
+  return t;
+};
+
+const ops = {
+  load(_: OpContext, id: number, channels: Float32Array[], sampleRate: number) {
+    tracks.set(id, { channels, sampleRate });
+  },
+  release(_: OpContext, id: number) {
+    tracks.delete(id);
+  },
+  decode(_: OpContext, bytes: Uint8Array) {
+    return FileDecoder.decode(bytes);
+  },
+  hashTrack(_: OpContext, id: number) {
+    const { channels, sampleRate } = track(id);
+    return EngineCore.pcmHash(channels, sampleRate);
+  },
+  analyzeTrack(ctx: OpContext, id: number, mode: DetectionMode) {
+    const { channels, sampleRate } = track(id);
+    return EngineCore.analyzeTrack(channels, sampleRate, mode, ctx.status);
+  },
+  analyzeBpm(ctx: OpContext, id: number, mode: DetectionMode) {
+    const { channels, sampleRate } = track(id);
+    return EngineCore.analyzeBpm(channels, sampleRate, mode, ctx.status);
+  },
+  analyzeTempoMap(_: OpContext, id: number, bpm: number, windows?: BpmWindow[]) {
+    const { channels, sampleRate } = track(id);
+    return EngineCore.analyzeTempoMap(channels, sampleRate, bpm, windows);
+  },
+  detectBoundaries(_: OpContext, id: number, grid?: BeatGrid) {
+    const { channels, sampleRate } = track(id);
+    return EngineCore.detectBoundaries(channels, sampleRate, grid);
+  },
+  refineLoop(_: OpContext, id: number, bounds: LoopBoundaries, crossfade: number) {
+    const { channels, sampleRate } = track(id);
+    return LoopFinder.refine(channels, sampleRate, bounds, crossfade);
+  },
+  render(ctx: OpContext, refs: Record<string, { id: number; info: TrackInfo }>, mix: MixDescription, o: ProcessingOptions) {
+    const sessionTracks: Record<string, SessionTrack> = {};
+    for (const [key, { id, info }] of Object.entries(refs)) sessionTracks[key] = { ...track(id), info };
+    return SessionRenderer.render(sessionTracks, mix, o, ctx.emit, (stage, fraction) => ctx.progress(fraction, stage));
+  }
+};
+
+export type EngineOps = typeof ops;
+export type EngineOp = keyof EngineOps;
+
+export interface EngineRequest {
+  id: number;
+  op: EngineOp;
+  args: unknown[];
+}
+
+// Tells the worker the caller has written `ack` more bytes of call `id`'s streamed result
+export interface EngineAck {
+  id: number;
+  ack: number;
+}
+
+export type EngineResponse =
+  | { id: number; type: 'status'; status: string }
+  | { id: number; type: 'progress'; fraction: number; stage?: string }
+  | { id: number; type: 'chunk'; bytes: Uint8Array<ArrayBuffer> }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string };
+
+/** Buffers behind the channel arrays in a result, or in its `channels`, which are handed back rather than copied. */
+const transferables = (value: unknown): Transferable[] => {
+  if (Array.isArray(value)) return value.flatMap(v => (v instanceof Float32Array ? [v.buffer as ArrayBuffer] : []));
+  if (value && typeof value === 'object' && 'channels' in value) return transferables(value.channels);
+  return [];
+};
+
+// A call's streamed result: bytes sent and not yet acknowledged, and the op waiting for them to drain
+interface ChunkStream {
+  unacked: number;
+  drained?: () => void;
+}
+
+const streams = new Map<number, ChunkStream>();
+
+// The DOM lib has no worker-scope types; a Worker has the same messaging surface from the inside
+const scope = self as unknown as Worker;
+
+scope.onmessage = async (e: MessageEvent<EngineRequest | EngineAck>) => {
+  if ('ack' in e.data) {
+    const stream = streams.get(e.data.id);
+    if (!stream) return;
+    stream.unacked -= e.data.ack;
+    if (stream.unacked <= HIGH_WATER_BYTES) stream.drained?.();
+    return;
+  }
+  const { id, op, args } = e.data;
+  const reply = (message: EngineResponse, transfer: Transferable[] = []) => scope.postMessage(message, transfer);
+  const stream: ChunkStream = { unacked: 0 };
+  streams.set(id, stream);
+  try {
+    const run = ops[op] as (ctx: OpContext, ...args: unknown[]) => unknown;
+    const result = await run({
+      status: status => reply({ id, type: 'status', status }),
+      progress: (fraction, stage) => reply({ id, type: 'progress', fraction, stage }),
+      emit: async bytes => {
+        stream.unacked += bytes.length;
+        reply({ id, type: 'chunk', bytes }, [bytes.buffer]);
+        if (stream.unacked > HIGH_WATER_BYTES) await new Promise<void>(resolve => { stream.drained = resolve; });
+        stream.drained = undefined;
+      }
+    }, ...args);
+    reply({ id, type: 'result', result }, transferables(result));
+  } catch (err) {
+    reply({ id, type: 'error', message: err instanceof Error ? err.message : String(err) });
+  } finally {
+    streams.delete(id);
+  }
+};
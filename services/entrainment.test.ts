@@ -0,0 +1,43 @@
+
+import { describe, expect, it } from 'vitest';
+import { ToneSettings } from '../types';
+import { EntrainmentAnalyzer } from './entrainment';
+import { ToneGenerator } from './toneGenerator';
+
+const SR = 44100;
+// Carrier error allowed, in Hz: well under any modulation rate, so a sideband cannot pass
+const TOLERANCE = 0.5;
+
+const analyze = (settings: ToneSettings) => EntrainmentAnalyzer.analyze(ToneGenerator.render(settings, SR, 30), SR);
+
+describe('EntrainmentAnalyzer', () => {
+  // Narrow pulses spread a carrier into sidebands nearly as strong as itself, any of which can come out on top
+  it.each([
+    [150, 14, 'sine', 0.2],
+    [150, 14, 'sine', 0.5],
+    [100, 8, 'square', 0.2],
+    [200, 10, 'triangle', 0.35],
+    [440, 40, 'sine', 0.5],
+    [300, 2, 'square', 0.8],
+  ] as const)('finds the %d Hz carrier of an isochronic tone pulsed at %d Hz (%s, duty %d)', (carrierHz, beatHz, pulseShape, dutyCycle) => {
+    const result = analyze({ mode: 'isochronic', carrierHz, beatHz, pulseShape, dutyCycle });
+    expect(result.modulationHz).toBe(beatHz);
+    for (const hz of result.carriersHz!) expect(Math.abs(hz - carrierHz)).toBeLessThan(TOLERANCE);
+  });
+
+  it('puts a monaural beat\'s carrier between its two tones', () => {
+    const result = analyze({ mode: 'monaural', carrierHz: 200, beatHz: 10 });
+    expect(result.modulationHz).toBe(10);
+    for (const hz of result.carriersHz!) expect(Math.abs(hz - 200)).toBeLessThan(TOLERANCE);
+    expect(result.band).toBe('alpha');
+  });
+
+  it('measures a binaural beat between the ears, with no modulation in either', () => {
+    const result = analyze({ mode: 'binaural', carrierHz: 200, beatHz: 6 });
+    expect(result.binauralHz).toBe(6);
+    expect(result.modulationHz).toBeUndefined();
+    expect(result.carriersHz![0]).toBeCloseTo(197, 1);
+    expect(result.carriersHz![1]).toBeCloseTo(203, 1);
+    expect(result.band).toBe('theta');
+  });
+});
@@ -0,0 +1,221 @@
+
+import { BrainwaveBand, EntrainmentAnalysis } from '../types';
+import { FFT } from './fft';
+
+// Carrier search: long frames for ~0.2 Hz bins (refined further by interpolation), averaged over a few spots
+const CARRIER_FRAME_SECONDS = 5;
+const CARRIER_FRAMES = 3;
+const MIN_CARRIER_HZ = 30;
+const MAX_CARRIER_HZ = 4000;
+// A carrier must stand this far (in power) above the median of the spectrum to count as a tone
+const CARRIER_PROMINENCE = 1000;
+// A modulated tone's lines are measured over this many bins either side, a Hann window's main lobe,
+// so that where a line falls between bins does not change its power
+const LINE_BINS = 2;
+// Lines of a modulated tone this far (in power) below its strongest still count towards its centre
+const LINE_SPAN = 1000;
+// At most this many lines either side of it, which bounds the search on a dense spectrum
+const MAX_LINES = 32;
+// Amplitude envelope sampled at this rate, over at most ENVELOPE_SECONDS from the middle of the file
+const ENVELOPE_RATE = 200;
+const ENVELOPE_SECONDS = 80;
+const MODULATION_PROMINENCE = 25;
+// The squared signal is smoothed by three one-pole low-passes here before it is decimated, so the
+// carrier's own ripple cannot alias into the beat range
+const ENVELOPE_CUTOFF_HZ = 40;
+// Weakest modulation (peak deviation over mean level) reported, after the smoothing's loss
+const MIN_MODULATION_DEPTH = 0.02;
+const MIN_BEAT_HZ = 0.25;
+const MAX_BEAT_HZ = 50;
+
+const BANDS: [BrainwaveBand, number][] = [['delta', 4], ['theta', 8], ['alpha', 13], ['beta', 30], ['gamma', Infinity]];
+
+/**
+ * Entrainment analysis of focus audio. A binaural beat exists only between the ears, so each
+ * channel's carrier is measured separately and the beat is their difference. Isochronic pulses
+ * and monaural beats are amplitude modulation, found as the strongest peak in the spectrum of each
+ * channel's envelope (per channel, since summing a binaural pair would itself create one). A
+ * modulated carrier is the centre of the lines the modulation spreads it into (see `combCentre`).
+ */
+export class EntrainmentAnalyzer {
+  static analyze(channels: Float32Array[], sampleRate: number): EntrainmentAnalysis {
+    const result: EntrainmentAnalysis = {};
+
+    const modulation = this.modulation(channels, sampleRate);
+    const carriers = channels.slice(0, 2).map(ch => this.carrier(ch, sampleRate, modulation));
+    if (carriers.every((c): c is number => c !== null)) {
+      const [left, right] = carriers.length === 2 ? carriers : [carriers[0], carriers[0]];
+      result.carriersHz = [left, right];
+      const diff = Math.abs(right - left);
+      if (diff >= MIN_BEAT_HZ && diff <= MAX_BEAT_HZ) result.binauralHz = Math.round(diff * 100) / 100;
+    }
+
+    if (modulation !== null) result.modulationHz = Math.round(modulation * 100) / 100;
+
+    const beat = result.binauralHz ?? result.modulationHz;
+    if (beat !== undefined) result.band = this.classify(beat);
+    return result;
+  }
+
+  static classify(hz: number): BrainwaveBand {
+    return BANDS.find(([, upper]) => hz < upper)![0];
+  }
+
+  /**
+   * Frequency of the strongest tone in `data`, or of the tone it is a sideband of when `data` is
+   * modulated at `modulationHz`; null when nothing stands out from the spectrum.
+   */
+  private static carrier(data: Float32Array, sampleRate: number, modulationHz: number | null): number | null {
+    const n = FFT.nextPowerOfTwo(CARRIER_FRAME_SECONDS * sampleRate);
+    const frame = Math.min(n, data.length);
+    const power = new Float64Array(n / 2);
+    const fft = new FFT(n);
+    const re = new Float64Array(n);
+    const im = new Float64Array(n);
+
+    for (let f = 0; f < CARRIER_FRAMES; f++) {
+      const start = Math.floor(((f + 1) / (CARRIER_FRAMES + 1)) * (data.length - frame));
+      re.fill(0);
+      im.fill(0);
+      for (let i = 0; i < frame; i++) re[i] = data[start + i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frame));
+      fft.forward(re, im);
+      for (let k = 0; k < n / 2; k++) power[k] += re[k] * re[k] + im[k] * im[k];
+    }
+    const hi = Math.min(MAX_CARRIER_HZ, sampleRate / 2 - 1);
+    const hz = this.peak(power, sampleRate / n, MIN_CARRIER_HZ, hi, CARRIER_PROMINENCE);
+    if (hz === null || modulationHz === null) return hz;
+    return this.combCentre(power, sampleRate / n, hz, modulationHz, MIN_CARRIER_HZ, hi);
+  }
+
+  /**
+   * The carrier behind `hz`, the strongest line of a tone modulated at `modulationHz`. Modulation
+   * spreads a tone into lines `modulationHz` apart whose power is symmetric about the carrier; with
+   * narrow pulses they are nearly equal, so any of them can come out strongest. The carrier is taken
+   * as the centre about which the run of lines around `hz` is most symmetric, comparing only pairs
+   * that both lie in the searched range: on a line (isochronic) or halfway between two (monaural,
+   * whose two tones sit half the beat either side of it).
+   */
+  private static combCentre(power: Float64Array, binHz: number, hz: number, modulationHz: number, lo: number, hi: number): number {
+    const line = (f: number) => {
+      const k = Math.round(f / binHz);
+      let sum = 0;
+      for (let j = k - LINE_BINS; j <= k + LINE_BINS; j++) sum += power[j] ?? 0;
+      return sum;
+    };
+    const inRange = (i: number) => hz + i * modulationHz >= lo && hz + i * modulationHz <= hi;
+    // The run of lines around `hz` within LINE_SPAN of its power, by their index in steps of `modulationHz`
+    const threshold = line(hz) / LINE_SPAN;
+    let down = 0, up = 0;
+    while (down < MAX_LINES && inRange(-down - 1) && line(hz - (down + 1) * modulationHz) > threshold) down++;
+    while (up < MAX_LINES && inRange(up + 1) && line(hz + (up + 1) * modulationHz) > threshold) up++;
+
+    let total = 0;
+    for (let i = -down; i <= up; i++) total += line(hz + i * modulationHz);
+
+    // Candidate centres in half steps from `hz`, nearest first so that a tie keeps the nearer one. Only
+    // pairs inside the range are compared, and they must hold most of the run's power, or a centre by
+    // the edge of the range would compare nothing but itself
+    let best = 0, bestAsymmetry = Infinity;
+    for (let d = 0; d <= 2 * Math.max(down, up); d++) {
+      for (const halves of d === 0 ? [0] : [d, -d]) {
+        if (halves < -2 * down || halves > 2 * up) continue;
+        let diff = 0, sum = 0, covered = 0;
+        for (let i = -down; i <= up; i++) {
+          if (!inRange(halves - i)) continue;
+          const a = line(hz + i * modulationHz), b = line(hz + (halves - i) * modulationHz);
+          diff += Math.abs(a - b);
+          sum += a + b;
+          covered += a;
+        }
+        if (covered >= total / 2 && diff / sum < bestAsymmetry) {
+          bestAsymmetry = diff / sum;
+          best = halves;
+        }
+      }
+    }
+    const below = this.refine(power, binHz, hz + Math.floor(best / 2) * modulationHz);
+    const above = this.refine(power, binHz, hz + Math.ceil(best / 2) * modulationHz);
+    return (below + above) / 2;
+  }
+
+  /** Strongest amplitude-modulation rate across the channels, or null when the envelope is not periodic. */
+  private static modulation(channels: Float32Array[], sampleRate: number): number | null {
+    const block = Math.max(1, Math.round(sampleRate / ENVELOPE_RATE));
+    const rate = sampleRate / block;
+    const available = Math.floor(channels[0].length / block);
+    const length = Math.min(available, Math.round(ENVELOPE_SECONDS * rate));
+    if (length < 4 * rate) return null;
+    const n = FFT.nextPowerOfTwo(length);
+    const from = Math.floor((available - length) / 2) * block;
+
+    const fft = new FFT(n);
+    const re = new Float64Array(n);
+    const im = new Float64Array(n);
+    const power = new Float64Array(n / 2);
+    const coef = Math.exp((-2 * Math.PI * ENVELOPE_CUTOFF_HZ) / sampleRate);
+    let level = 0;
+    for (const ch of channels) {
+      re.fill(0);
+      im.fill(0);
+      let mean = 0;
+      let z1 = 0, z2 = 0, z3 = 0;
+      for (let j = 0; j < length; j++) {
+        let sum = 0;
+        for (let i = from + j * block; i < from + (j + 1) * block; i++) {
+          z1 = ch[i] * ch[i] + coef * (z1 - ch[i] * ch[i]);
+          z2 = z1 + coef * (z2 - z1);
+          z3 = z2 + coef * (z3 - z2);
+          sum += z3;
+        }
+        re[j] = Math.sqrt(Math.max(0, sum / block));
+        mean += re[j] / length;
+      }
+      level += mean / channels.length;
+      for (let j = 0; j < length; j++) re[j] = (re[j] - mean) * (0.5 - 0.5 * Math.cos((2 * Math.PI * j) / length));
+      fft.forward(re, im);
+      for (let k = 0; k < n / 2; k++) power[k] += re[k] * re[k] + im[k] * im[k];
+    }
+
+    const hz = this.peak(power, rate / n, MIN_BEAT_HZ, Math.min(MAX_BEAT_HZ, rate / 2 - 1), MODULATION_PROMINENCE);
+    if (hz === null) return null;
+    // A Hann-windowed sinusoid of amplitude A peaks at A * length / 4
+    const amplitude = (4 * Math.sqrt(power[Math.round(hz / (rate / n))] / channels.length)) / length;
+    if (!(amplitude >= MIN_MODULATION_DEPTH * level)) return null;
+    // Narrow pulses put nearly as much energy in the harmonics; take the lowest rate that is itself a strong peak
+    const at = (f: number) => {
+      const k = Math.round(f / (rate / n));
+      return Math.max(power[k - 1] ?? 0, power[k] ?? 0, power[k + 1] ?? 0);
+    };
+    for (const d of [3, 2]) {
+      if (hz / d >= MIN_BEAT_HZ && at(hz / d) >= 0.5 * at(hz)) return hz / d;
+    }
+    return hz;
+  }
+
+  /**
+   * Highest bin between `lo` and `hi` Hz, refined by parabolic interpolation of log power, if it is
+   * `prominence` times the median power in that range.
+   */
+  private static peak(power: Float64Array, binHz: number, lo: number, hi: number, prominence: number): number | null {
+    const first = Math.max(1, Math.ceil(lo / binHz));
+    const last = Math.min(power.length - 2, Math.floor(hi / binHz));
+    if (last <= first) return null;
+
+    let best = first;
+    for (let k = first + 1; k <= last; k++) if (power[k] > power[best]) best = k;
+    const sorted = Array.from(power.subarray(first, last + 1)).sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    if (!(power[best] > prominence * median)) return null;
+    return this.refine(power, binHz, best * binHz);
+  }
+
+  /** The peak nearest `hz` (within a bin), refined by parabolic interpolation of log power. */
+  private static refine(power: Float64Array, binHz: number, hz: number): number {
+    let best = Math.max(1, Math.min(power.length - 2, Math.round(hz / binHz)));
+    for (const k of [best - 1, best + 1]) if (k >= 1 && k <= power.length - 2 && power[k] > power[best]) best = k;
+    const a = Math.log(power[best - 1] + 1e-30), b = Math.log(power[best] + 1e-30), c = Math.log(power[best + 1] + 1e-30);
+    const denom = a - 2 * b + c;
+    const shift = denom < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denom)) : 0;
+    return (best + shift) * binHz;
+  }
+}
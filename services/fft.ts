@@ -0,0 +1,80 @@
+
+/**
+ * In-place iterative radix-2 complex FFT. Instances cache the twiddle factors and bit-reversal
+ * table for one size, so allocate one per frame size and reuse it across frames.
+ */
+export class FFT {
+  readonly size: number;
+  private readonly cos: Float64Array;
+  private readonly sin: Float64Array;
+  private readonly rev: Uint32Array;
+
+  constructor(size: number) {
+    if (size < 2 || (size & (size - 1)) !== 0) throw new Error(`FFT size must be a power of two, got ${size}`);
+    this.size = size;
+    this.cos = new Float64Array(size / 2);
+    this.sin = new Float64Array(size / 2);
+    for (let i = 0; i < size / 2; i++) {
+      this.cos[i] = Math.cos((2 * Math.PI * i) / size);
+      this.sin[i] = -Math.sin((2 * Math.PI * i) / size);
+    }
+    this.rev = new Uint32Array(size);
+    const bits = Math.log2(size);
+    for (let i = 0; i < size; i++) {
+      let r = 0;
+      for (let b = 0; b < bits; b++) r = (r << 1) | ((i >> b) & 1);
+      this.rev[i] = r;
+    }
+  }
+
+  static nextPowerOfTwo(n: number): number {
+    let p = 1;
+    while (p < n) p <<= 1;
+    return p;
+  }
+
+  forward(re: Float64Array, im: Float64Array) {
+    this.transform(re, im, false);
+  }
+
+  /** Inverse transform, including the 1/N scaling. */
+  inverse(re: Float64Array, im: Float64Array) {
+    this.transform(re, im, true);
+    const n = this.size;
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+
+  private transform(re: Float64Array, im: Float64Array, inverse: boolean) {
+    const n = this.size;
+    for (let i = 0; i < n; i++) {
+      const j = this.rev[i];
+      if (j > i) {
+        let t = re[i]; re[i] = re[j]; re[j] = t;
+        t = im[i]; im[i] = im[j]; im[j] = t;
+      }
+    }
+
+    const sign = inverse ? -1 : 1;
+    for (let len = 2; len <= n; len <<= 1) {
+      const half = len >> 1;
+      const step = n / len;
+      for (let start = 0; start < n; start += len) {
+        for (let k = 0; k < half; k++) {
+          const wr = this.cos[k * step];
+          const wi = sign * this.sin[k * step];
+          const a = start + k;
+          const b = a + half;
+          const xr = re[b] * wr - im[b] * wi;
+          const xi = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - xr;
+          im[b] = im[a] - xi;
+          re[a] += xr;
+          im[a] += xi;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,25 @@
+
+import { DecodedAudio } from '../types';
+import { WavDecoder } from './wavDecoder';
+import { FlacDecoder } from './flacDecoder';
+
+/**
+ * Decodes the formats the engine reads itself, WAV and FLAC, recognised by their leading bytes rather
+ * than a name or MIME type. The audio keeps its own sample rate, so a render from it is the same
+ * wherever it runs; the browser falls back to Web Audio for anything else.
+ */
+export class FileDecoder {
+  /** The format's display name, or null when it is not one decoded here. */
+  static sniff(bytes: Uint8Array): string | null {
+    if (WavDecoder.isWav(bytes)) return 'WAV';
+    if (FlacDecoder.isFlac(bytes)) return 'FLAC';
+    return null;
+  }
+
+  static decode(bytes: Uint8Array): DecodedAudio {
+    const format = this.sniff(bytes);
+    if (format === 'WAV') return WavDecoder.decode(bytes);
+    if (format === 'FLAC') return FlacDecoder.decode(bytes);
+    throw new Error('Unsupported audio format: only WAV and FLAC can be decoded here');
+  }
+}
@@ -0,0 +1,281 @@
+
+import { DecodedAudio } from '../types';
+
+const BLOCK_SIZES: Record<number, number> = { 1: 192, 2: 576, 3: 1152, 4: 2304, 5: 4608, 8: 256, 9: 512, 10: 1024, 11: 2048, 12: 4096, 13: 8192, 14: 16384, 15: 32768 };
+const SAMPLE_RATES: Record<number, number> = { 1: 88200, 2: 176400, 3: 192000, 4: 8000, 5: 16000, 6: 22050, 7: 24000, 8: 32000, 9: 44100, 10: 48000, 11: 96000 };
+const SAMPLE_SIZES: Record<number, number> = { 1: 8, 2: 12, 4: 16, 5: 20, 6: 24, 7: 32 };
+
+const enum ChannelAssignment { LeftSide = 8, SideRight = 9, MidSide = 10 }
+
+// Each FIXED predictor's coefficients, applied to the previous samples, most recent first
+const FIXED_COEFFS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+interface StreamInfo {
+  sampleRate: number;
+  numChannels: number;
+  bitsPerSample: number;
+  totalSamples: number;
+}
+
+class BitReader {
+  pos = 0;
+  private bit = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get atEnd(): boolean {
+    return this.pos >= this.bytes.length;
+  }
+
+  /** Reads `bits` bits (up to 32) as an unsigned value, MSB first. */
+  read(bits: number): number {
+    let value = 0;
+    while (bits > 0) {
+      if (this.pos >= this.bytes.length) throw new Error('FLAC stream ends mid-frame');
+      const take = Math.min(bits, 8 - this.bit);
+      const chunk = (this.bytes[this.pos] >> (8 - this.bit - take)) & ((1 << take) - 1);
+      value = value * (1 << take) + chunk;
+      bits -= take;
+      this.bit += take;
+      if (this.bit === 8) {
+        this.bit = 0;
+        this.pos++;
+      }
+    }
+    return value;
+  }
+
+  readSigned(bits: number): number {
+    if (bits === 0) return 0;
+    const v = this.read(bits);
+    return v >= Math.pow(2, bits - 1) ? v - Math.pow(2, bits) : v;
+  }
+
+  /** Count of zero bits before the next one bit, which is consumed. */
+  readUnary(): number {
+    let count = 0;
+    for (;;) {
+      if (this.pos >= this.bytes.length) throw new Error('FLAC stream ends mid-frame');
+      const rest = (this.bytes[this.pos] << this.bit) & 0xff;
+      if (rest === 0) {
+        count += 8 - this.bit;
+        this.bit = 0;
+        this.pos++;
+        continue;
+      }
+      const zeros = Math.clz32(rest) - 24;
+      count += zeros;
+      this.bit += zeros + 1;
+      if (this.bit === 8) {
+        this.bit = 0;
+        this.pos++;
+      }
+      return count;
+    }
+  }
+
+  readRice(k: number): number {
+    const u = this.readUnary() * (1 << k) + this.read(k);
+    // Zig-zag: even codes are non-negative, odd ones negative
+    return u % 2 === 0 ? u / 2 : -(u + 1) / 2;
+  }
+
+  alignToByte() {
+    if (this.bit > 0) {
+      this.bit = 0;
+      this.pos++;
+    }
+  }
+}
+
+/**
+ * Native FLAC stream reader: metadata is skipped apart from STREAMINFO, and every frame is decoded,
+ * CONSTANT, VERBATIM, FIXED and LPC subframes alike, with Rice-coded (and escaped) residuals, wasted
+ * bits and all four stereo decorrelation modes. Samples are scaled by 2^(bits-1) to -1…1. Frame CRCs
+ * are not checked.
+ */
+export class FlacDecoder {
+  static isFlac(bytes: Uint8Array): boolean {
+    return bytes.length >= 4 && bytes[0] === 0x66 && bytes[1] === 0x4c && bytes[2] === 0x61 && bytes[3] === 0x43;
+  }
+
+  static decode(bytes: Uint8Array): DecodedAudio {
+    if (!this.isFlac(bytes)) throw new Error('Not a FLAC stream');
+    const r = new BitReader(bytes);
+    r.pos = 4;
+    const info = this.readMetadata(r);
+
+    // With the length unknown (zero in STREAMINFO) the output grows as frames arrive
+    let capacity = info.totalSamples || info.sampleRate * 60;
+    let channels = Array.from({ length: info.numChannels }, () => new Float32Array(capacity));
+    let length = 0;
+    const scale = 1 / Math.pow(2, info.bitsPerSample - 1);
+
+    while (!r.atEnd) {
+      const block = this.readFrame(r, info);
+      if (!block) break;
+      const n = block[0].length;
+      if (length + n > capacity) {
+        capacity = Math.max(capacity * 2, length + n);
+        channels = channels.map(c => {
+          const grown = new Float32Array(capacity);
+          grown.set(c.subarray(0, length));
+          return grown;
+        });
+      }
+      block.forEach((samples, ch) => {
+        const out = channels[ch];
+        for (let i = 0; i < n; i++) out[length + i] = samples[i] * scale;
+      });
+      length += n;
+    }
+    return { channels: channels.map(c => (c.length === length ? c : c.slice(0, length))), sampleRate: info.sampleRate };
+  }
+
+  private static readMetadata(r: BitReader): StreamInfo {
+    let info: StreamInfo | null = null;
+    let last = false;
+    while (!last) {
+      last = r.read(1) === 1;
+      const type = r.read(7);
+      const size = r.read(24);
+      const end = r.pos + size;
+      if (type === 0) {
+        r.read(16); r.read(16); // min / max block size
+        r.read(24); r.read(24); // min / max frame size
+        const sampleRate = r.read(20);
+        const numChannels = r.read(3) + 1;
+        const bitsPerSample = r.read(5) + 1;
+        const totalSamples = r.read(36);
+        info = { sampleRate, numChannels, bitsPerSample, totalSamples };
+      }
+      r.pos = end;
+    }
+    if (!info) throw new Error('FLAC stream has no STREAMINFO block');
+    return info;
+  }
+
+  /** One frame's samples per channel, or null at trailing garbage where no frame starts. */
+  private static readFrame(r: BitReader, info: StreamInfo): Int32Array[] | null {
+    if (r.read(14) !== 0x3ffe) return null;
+    r.read(2); // reserved, blocking strategy
+    const bsCode = r.read(4);
+    const srCode = r.read(4);
+    const assignment = r.read(4);
+    const ssCode = r.read(3);
+    r.read(1);
+    this.readUtf8(r);
+
+    let blockSize = BLOCK_SIZES[bsCode] ?? 0;
+    if (bsCode === 6) blockSize = r.read(8) + 1;
+    else if (bsCode === 7) blockSize = r.read(16) + 1;
+    if (srCode === 12) r.read(8);
+    else if (srCode === 13 || srCode === 14) r.read(16);
+    if (srCode !== 0 && srCode < 12 && SAMPLE_RATES[srCode] !== info.sampleRate) throw new Error('FLAC sample rate changes mid-stream');
+    r.read(8); // CRC-8
+    if (blockSize === 0) throw new Error(`Invalid FLAC block size code ${bsCode}`);
+
+    const bps = SAMPLE_SIZES[ssCode] ?? info.bitsPerSample;
+    const numChannels = assignment < 8 ? assignment + 1 : 2;
+    const subframes: Int32Array[] = [];
+    for (let ch = 0; ch < numChannels; ch++) {
+      // The side channel carries one extra bit
+      const side = (assignment === ChannelAssignment.LeftSide && ch === 1)
+        || (assignment === ChannelAssignment.SideRight && ch === 0)
+        || (assignment === ChannelAssignment.MidSide && ch === 1);
+      subframes.push(this.readSubframe(r, blockSize, bps + (side ? 1 : 0)));
+    }
+    r.alignToByte();
+    r.read(16); // CRC-16
+
+    if (assignment >= 8) {
+      const [a, b] = subframes;
+      for (let i = 0; i < blockSize; i++) {
+        if (assignment === ChannelAssignment.LeftSide) {
+          b[i] = a[i] - b[i];
+        } else if (assignment === ChannelAssignment.SideRight) {
+          a[i] = a[i] + b[i];
+        } else {
+          const side = b[i];
+          const mid = a[i] * 2 + (side & 1);
+          a[i] = (mid + side) >> 1;
+          b[i] = (mid - side) >> 1;
+        }
+      }
+    }
+    return subframes;
+  }
+
+  private static readSubframe(r: BitReader, n: number, bits: number): Int32Array {
+    r.read(1);
+    const type = r.read(6);
+    let wasted = 0;
+    if (r.read(1)) wasted = r.readUnary() + 1;
+    const sampleBits = bits - wasted;
+    const out = new Int32Array(n);
+
+    if (type === 0) {
+      out.fill(r.readSigned(sampleBits));
+    } else if (type === 1) {
+      for (let i = 0; i < n; i++) out[i] = r.readSigned(sampleBits);
+    } else if (type >= 8 && type <= 12) {
+      const order = type - 8;
+      for (let i = 0; i < order; i++) out[i] = r.readSigned(sampleBits);
+      this.readResidual(r, out, order);
+      this.predict(out, order, FIXED_COEFFS[order], 0);
+    } else if (type >= 32) {
+      const order = type - 31;
+      for (let i = 0; i < order; i++) out[i] = r.readSigned(sampleBits);
+      const precision = r.read(4) + 1;
+      const shift = r.readSigned(5);
+      const coeffs: number[] = [];
+      for (let i = 0; i < order; i++) coeffs.push(r.readSigned(precision));
+      this.readResidual(r, out, order);
+      this.predict(out, order, coeffs, Math.max(0, shift));
+    } else {
+      throw new Error(`Reserved FLAC subframe type ${type}`);
+    }
+
+    if (wasted > 0) for (let i = 0; i < n; i++) out[i] *= 1 << wasted;
+    return out;
+  }
+
+  /** Rice-coded residuals into `out` from `order` on; the predictor adds to them afterwards. */
+  private static readResidual(r: BitReader, out: Int32Array, order: number) {
+    const method = r.read(2);
+    if (method > 1) throw new Error(`Reserved FLAC residual coding method ${method}`);
+    const paramBits = method === 0 ? 4 : 5;
+    const escape = (1 << paramBits) - 1;
+    const partitionOrder = r.read(4);
+    const partitionSize = out.length >> partitionOrder;
+    let i = order;
+
+    for (let p = 0; p < 1 << partitionOrder; p++) {
+      const end = (p + 1) * partitionSize;
+      const k = r.read(paramBits);
+      if (k === escape) {
+        const raw = r.read(5);
+        for (; i < end; i++) out[i] = r.readSigned(raw);
+      } else {
+        for (; i < end; i++) out[i] = r.readRice(k);
+      }
+    }
+  }
+
+  /** Adds the prediction from the previous `order` samples to each residual, in place. */
+  private static predict(out: Int32Array, order: number, coeffs: number[], shift: number) {
+    const div = Math.pow(2, shift);
+    for (let i = order; i < out.length; i++) {
+      let sum = 0;
+      for (let j = 0; j < order; j++) sum += coeffs[j] * out[i - j - 1];
+      out[i] += Math.floor(sum / div);
+    }
+  }
+
+  private static readUtf8(r: BitReader) {
+    const first = r.read(8);
+    let extra = 0;
+    while (extra < 7 && first & (0x80 >> extra)) extra++;
+    for (let i = 1; i < extra; i++) r.read(8);
+  }
+}
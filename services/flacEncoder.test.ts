@@ -0,0 +1,101 @@
+
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { FlacCompressionLevel } from '../types';
+import { FlacDecoder } from './flacDecoder';
+import { FlacEncoder } from './flacEncoder';
+import { Random } from './random';
+
+const SR = 44100;
+const LEVELS: FlacCompressionLevel[] = [0, 3, 5, 8];
+// Uneven block lengths, as a render's limiter and quantiser hand them over, repeated in turn
+const FEEDS = [1, 1000, 4097, 333, 8192, 4095];
+
+/**
+ * Quantised test material that exercises every subframe type: a tone under noise, a stretch of
+ * silence (CONSTANT), full-scale square edges, and white noise (VERBATIM). The second channel follows
+ * the first closely, so the stereo decorrelation modes get picked too.
+ */
+const material = (bits: number, numChannels: number, seconds: number) => {
+  const max = 2 ** (bits - 1) - 1;
+  const random = new Random(bits * 10 + numChannels);
+  const length = Math.round(seconds * SR);
+  const left = new Int32Array(length);
+  for (let i = 0; i < length; i++) {
+    const t = i / SR;
+    let x: number;
+    if (t < 0.4) x = 0.5 * Math.sin(2 * Math.PI * 440 * t) + 0.01 * (random.next() - 0.5);
+    else if (t < 0.5) x = 0;
+    else if (t < 0.6) x = (i >> 6) % 2 ? 1 : -1;
+    else x = 2 * random.next() - 1;
+    left[i] = Math.max(-max - 1, Math.min(max, Math.round(x * max)));
+  }
+  const right = left.map((v, i) => Math.max(-max - 1, Math.min(max, Math.round(0.9 * v + (i % 7) - 3))));
+  return [left, right].slice(0, numChannels);
+};
+
+/** Encodes `channels` fed in FEEDS-sized blocks, with the finished header written over the first one. */
+const encode = (channels: Int32Array[], bits: number, level: FlacCompressionLevel) => {
+  const encoder = new FlacEncoder(channels.length, SR, bits, level);
+  const parts: Uint8Array[] = [encoder.header()];
+  for (let pos = 0, k = 0; pos < channels[0].length; k++) {
+    const end = Math.min(channels[0].length, pos + FEEDS[k % FEEDS.length]);
+    parts.push(encoder.encode(channels.map(c => c.subarray(pos, end))));
+    pos = end;
+  }
+  parts.push(encoder.finalize());
+  parts[0] = encoder.header();
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  parts.reduce((at, p) => (out.set(p, at), at + p.length), 0);
+  return out;
+};
+
+/** MD5 of the samples as FLAC signs them: interleaved, little-endian, in whole bytes per sample. */
+const signature = (channels: Int32Array[], bits: number) => {
+  const bytesPerSample = Math.ceil(bits / 8);
+  const out = new Uint8Array(channels[0].length * channels.length * bytesPerSample);
+  let o = 0;
+  for (let i = 0; i < channels[0].length; i++) {
+    for (const c of channels) for (let b = 0; b < bytesPerSample; b++) out[o++] = (c[i] >> (8 * b)) & 0xff;
+  }
+  return createHash('md5').update(out).digest('hex');
+};
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+describe('FlacEncoder', () => {
+  for (const bits of [16, 24]) {
+    for (const level of LEVELS) {
+      for (const numChannels of [1, 2]) {
+        it(`round-trips ${bits}-bit ${numChannels === 1 ? 'mono' : 'stereo'} bit-exactly at level ${level}`, () => {
+          const input = material(bits, numChannels, 1);
+          const bytes = encode(input, bits, level);
+          const decoded = FlacDecoder.decode(bytes);
+
+          expect(decoded.sampleRate).toBe(SR);
+          expect(decoded.channels.length).toBe(numChannels);
+          const scale = 2 ** (bits - 1);
+          decoded.channels.forEach((channel, ch) => {
+            expect(channel.length).toBe(input[ch].length);
+            const samples = Int32Array.from(channel, x => Math.round(x * scale));
+            expect(samples).toEqual(input[ch]);
+          });
+
+          // STREAMINFO follows the 4-byte marker and its 4-byte block header: the 36-bit sample count
+          // starts in the low half of byte 21, and the MD5 signature takes the last 16 bytes
+          const view = new DataView(bytes.buffer, bytes.byteOffset);
+          expect((view.getUint8(21) & 0x0f) * 2 ** 32 + view.getUint32(22)).toBe(input[0].length);
+          expect(hex(bytes.subarray(26, 42))).toBe(signature(input, bits));
+        });
+      }
+    }
+  }
+
+  it('starts with a header of unknown length and signature until finished', () => {
+    const encoder = new FlacEncoder(2, SR, 16, 5);
+    const header = encoder.header();
+    encoder.encode(material(16, 2, 0.1));
+    expect(encoder.header().subarray(21)).toEqual(header.subarray(21));
+    expect(header.subarray(26, 42).every(b => b === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,669 @@
+
+import { FlacCompressionLevel } from '../types';
+import { Md5 } from './md5';
+
+interface LevelPreset {
+  blockSize: number;
+  maxLpcOrder: number;
+  maxPartitionOrder: number;
+  stereo: 'independent' | 'estimate' | 'exhaustive';
+  exhaustiveModelSearch: boolean;
+}
+
+// Mirrors the reference encoder's -0 ... -8 presets
+const PRESETS: LevelPreset[] = [
+  { blockSize: 1152, maxLpcOrder: 0, maxPartitionOrder: 3, stereo: 'independent', exhaustiveModelSearch: false },
+  { blockSize: 1152, maxLpcOrder: 0, maxPartitionOrder: 3, stereo: 'estimate', exhaustiveModelSearch: false },
+  { blockSize: 1152, maxLpcOrder: 0, maxPartitionOrder: 3, stereo: 'exhaustive', exhaustiveModelSearch: false },
+  { blockSize: 4096, maxLpcOrder: 6, maxPartitionOrder: 4, stereo: 'independent', exhaustiveModelSearch: false },
+  { blockSize: 4096, maxLpcOrder: 8, maxPartitionOrder: 4, stereo: 'estimate', exhaustiveModelSearch: false },
+  { blockSize: 4096, maxLpcOrder: 8, maxPartitionOrder: 5, stereo: 'exhaustive', exhaustiveModelSearch: false },
+  { blockSize: 4096, maxLpcOrder: 8, maxPartitionOrder: 6, stereo: 'exhaustive', exhaustiveModelSearch: false },
+  { blockSize: 4096, maxLpcOrder: 12, maxPartitionOrder: 6, stereo: 'exhaustive', exhaustiveModelSearch: false },
+  { blockSize: 4096, maxLpcOrder: 12, maxPartitionOrder: 6, stereo: 'exhaustive', exhaustiveModelSearch: true }
+];
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6,
+  24000: 7, 32000: 8, 44100: 9, 48000: 10, 96000: 11
+};
+const SAMPLE_SIZE_CODES: Record<number, number> = { 8: 1, 12: 2, 16: 4, 20: 5, 24: 6, 32: 7 };
+
+const enum ChannelAssignment { LeftSide = 8, SideRight = 9, MidSide = 10 }
+
+const CRC8_TABLE = new Uint8Array(256);
+const CRC16_TABLE = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let c8 = i;
+  let c16 = i << 8;
+  for (let j = 0; j < 8; j++) {
+    c8 = (c8 & 0x80 ? (c8 << 1) ^ 0x07 : c8 << 1) & 0xff;
+    c16 = (c16 & 0x8000 ? (c16 << 1) ^ 0x8005 : c16 << 1) & 0xffff;
+  }
+  CRC8_TABLE[i] = c8;
+  CRC16_TABLE[i] = c16;
+}
+
+class BitWriter {
+  private buf = new Uint8Array(1 << 16);
+  private acc = 0;
+  private accBits = 0;
+  pos = 0;
+
+  get bytes(): Uint8Array { return this.buf; }
+
+  /** Writes the low `bits` bits of an unsigned value, MSB first. */
+  write(value: number, bits: number) {
+    if (bits > 24) {
+      this.write(Math.floor(value / 0x1000000) & ((1 << (bits - 24)) - 1), bits - 24);
+      this.write(value & 0xffffff, 24);
+      return;
+    }
+    if (bits === 0) return;
+    this.acc = (this.acc << bits) | (value & ((1 << bits) - 1));
+    this.accBits += bits;
+    while (this.accBits >= 8) {
+      this.accBits -= 8;
+      this.pushByte((this.acc >>> this.accBits) & 0xff);
+    }
+    this.acc &= (1 << this.accBits) - 1;
+  }
+
+  writeSigned(value: number, bits: number) {
+    this.write(value < 0 ? value + Math.pow(2, bits) : value, bits);
+  }
+
+  writeZeros(count: number) {
+    while (count > 24) { this.write(0, 24); count -= 24; }
+    this.write(0, count);
+  }
+
+  writeRice(u: number, k: number) {
+    const q = Math.floor(u / (1 << k));
+    if (q + 1 + k <= 24) {
+      this.write((1 << k) | (u & ((1 << k) - 1)), q + 1 + k);
+    } else {
+      this.writeZeros(q);
+      this.write(1, 1);
+      this.write(u & ((1 << k) - 1), k);
+    }
+  }
+
+  alignToByte() {
+    if (this.accBits > 0) this.write(0, 8 - this.accBits);
+  }
+
+  /** Returns a copy of every completed byte and rewinds the writer. Must be byte-aligned. */
+  take(): Uint8Array<ArrayBuffer> {
+    const out = this.buf.slice(0, this.pos);
+    this.pos = 0;
+    return out;
+  }
+
+  private pushByte(b: number) {
+    if (this.pos === this.buf.length) {
+      const grown = new Uint8Array(this.buf.length * 2);
+      grown.set(this.buf);
+      this.buf = grown;
+    }
+    this.buf[this.pos++] = b;
+  }
+}
+
+interface SubframePlan {
+  kind: 'constant' | 'verbatim' | 'fixed' | 'lpc';
+  bits: number;
+  samples: Int32Array;
+  sampleBits: number;
+  wasted: number;
+  order: number;
+  qlp?: Int32Array;
+  precision?: number;
+  shift?: number;
+  residual?: Float64Array;
+  partitionOrder?: number;
+  riceParams?: Uint8Array;
+}
+
+interface RicePlan {
+  bits: number;
+  partitionOrder: number;
+  params: Uint8Array;
+}
+
+/**
+ * Native FLAC stream writer: STREAMINFO with MD5 signature, CONSTANT / VERBATIM / FIXED / LPC subframes,
+ * Rice-coded residuals with partition search and inter-channel decorrelation for stereo.
+ * Samples are supplied already quantised to `bitsPerSample`, so decoding reproduces them bit-exactly.
+ */
+export class FlacEncoder {
+  private readonly preset: LevelPreset;
+  private readonly writer = new BitWriter();
+  private readonly md5 = new Md5();
+  private readonly pending: Int32Array[];
+  private pendingLen = 0;
+  private frameNumber = 0;
+  private totalSamples = 0;
+  private minFrameSize = Infinity;
+  private maxFrameSize = 0;
+  private md5Scratch = new Uint8Array(0);
+  private signature: Uint8Array | null = null;
+
+  constructor(
+    private readonly numChannels: number,
+    private readonly sampleRate: number,
+    private readonly bitsPerSample: number,
+    level: FlacCompressionLevel = 5
+  ) {
+    if (numChannels < 1 || numChannels > 8) throw new Error(`FLAC supports 1-8 channels, got ${numChannels}`);
+    if (bitsPerSample < 4 || bitsPerSample > 24) throw new Error(`Unsupported FLAC bit depth: ${bitsPerSample}`);
+    this.preset = PRESETS[Math.max(0, Math.min(8, level))];
+    this.pending = Array.from({ length: numChannels }, () => new Int32Array(this.preset.blockSize));
+  }
+
+  /** Encodes as many whole blocks as are available and returns their frames. */
+  encode(channels: Int32Array[]): Uint8Array<ArrayBuffer> {
+    const { blockSize } = this.preset;
+    const len = channels[0].length;
+    let offset = 0;
+
+    if (this.pendingLen > 0) {
+      const take = Math.min(blockSize - this.pendingLen, len);
+      for (let ch = 0; ch < this.numChannels; ch++) this.pending[ch].set(channels[ch].subarray(0, take), this.pendingLen);
+      this.pendingLen += take;
+      offset = take;
+      if (this.pendingLen === blockSize) {
+        this.writeFrame(this.pending, blockSize);
+        this.pendingLen = 0;
+      }
+    }
+
+    while (len - offset >= blockSize) {
+      this.writeFrame(channels.map(c => c.subarray(offset, offset + blockSize)), blockSize);
+      offset += blockSize;
+    }
+
+    if (offset < len) {
+      for (let ch = 0; ch < this.numChannels; ch++) this.pending[ch].set(channels[ch].subarray(offset, len), this.pendingLen);
+      this.pendingLen += len - offset;
+    }
+
+    return this.writer.take();
+  }
+
+  /** Flushes the final short block. After this, `header()` describes the complete stream. */
+  finalize(): Uint8Array<ArrayBuffer> {
+    if (this.pendingLen > 0) {
+      this.writeFrame(this.pending.map(p => p.subarray(0, this.pendingLen)), this.pendingLen);
+      this.pendingLen = 0;
+    }
+    this.signature = this.md5.digest();
+    return this.writer.take();
+  }
+
+  /**
+   * The "fLaC" marker followed by the STREAMINFO metadata block. Before `finalize` the frame sizes,
+   * length and MD5 signature are written as zero, which the format defines as unknown, so a stream can
+   * start with this and have it rewritten once finished if its sink can seek.
+   */
+  header(): Uint8Array<ArrayBuffer> {
+    const done = this.signature !== null;
+    const total = done ? this.totalSamples : 0;
+    const w = new BitWriter();
+    w.write(0x664c6143, 32); // "fLaC"
+    w.write(1, 1); // last metadata block
+    w.write(0, 7); // STREAMINFO
+    w.write(34, 24);
+    w.write(this.preset.blockSize, 16);
+    w.write(this.preset.blockSize, 16);
+    w.write(done && this.minFrameSize !== Infinity ? this.minFrameSize : 0, 24);
+    w.write(done ? this.maxFrameSize : 0, 24);
+    w.write(this.sampleRate, 20);
+    w.write(this.numChannels - 1, 3);
+    w.write(this.bitsPerSample - 1, 5);
+    w.write(Math.floor(total / 0x1000000), 12);
+    w.write(total & 0xffffff, 24);
+    for (const b of this.signature ?? new Uint8Array(16)) w.write(b, 8);
+    return w.take();
+  }
+
+  private writeFrame(block: Int32Array[], n: number) {
+    this.hashBlock(block, n);
+    this.totalSamples += n;
+
+    const { assignment, plans } = this.planChannels(block, n);
+    const w = this.writer;
+    const start = w.pos;
+
+    w.write(0xfff8, 16); // sync code, fixed-blocksize stream
+    const bsCode = this.blockSizeCode(n);
+    w.write(bsCode, 4);
+    w.write(SAMPLE_RATE_CODES[this.sampleRate] ?? 0, 4);
+    w.write(assignment, 4);
+    w.write(SAMPLE_SIZE_CODES[this.bitsPerSample] ?? 0, 3);
+    w.write(0, 1);
+    this.writeUtf8(this.frameNumber++);
+    if (bsCode === 6) w.write(n - 1, 8);
+    else if (bsCode === 7) w.write(n - 1, 16);
+    w.write(this.crc8(w.bytes, start, w.pos), 8);
+
+    for (const plan of plans) this.writeSubframe(plan, n);
+
+    w.alignToByte();
+    w.write(this.crc16(w.bytes, start, w.pos), 16);
+
+    const size = w.pos - start;
+    this.minFrameSize = Math.min(this.minFrameSize, size);
+    this.maxFrameSize = Math.max(this.maxFrameSize, size);
+  }
+
+  private planChannels(block: Int32Array[], n: number): { assignment: number; plans: SubframePlan[] } {
+    const bps = this.bitsPerSample;
+    const mode = this.numChannels === 2 ? this.preset.stereo : 'independent';
+    if (mode === 'independent') {
+      return { assignment: this.numChannels - 1, plans: block.map(c => this.planSubframe(c, n, bps)) };
+    }
+
+    const [left, right] = block;
+    const mid = new Int32Array(n);
+    const side = new Int32Array(n);
+    for (let i = 0; i < n; i++) {
+      mid[i] = (left[i] + right[i]) >> 1;
+      side[i] = left[i] - right[i];
+    }
+
+    const options = [
+      { assignment: 1, pair: [0, 1] },
+      { assignment: ChannelAssignment.LeftSide, pair: [0, 3] },
+      { assignment: ChannelAssignment.SideRight, pair: [3, 1] },
+      { assignment: ChannelAssignment.MidSide, pair: [2, 3] }
+    ];
+    const signals = [left, right, mid, side];
+    const sampleBits = [bps, bps, bps, bps + 1];
+
+    if (mode === 'estimate') {
+      // Rank the four signals by their second-order fixed residual, as a cheap proxy for coded size
+      const cost = signals.map(s => {
+        let sum = 0;
+        for (let i = 2; i < n; i++) sum += Math.abs(s[i] - 2 * s[i - 1] + s[i - 2]);
+        return sum;
+      });
+      const best = options.reduce((a, b) => cost[b.pair[0]] + cost[b.pair[1]] < cost[a.pair[0]] + cost[a.pair[1]] ? b : a);
+      return { assignment: best.assignment, plans: best.pair.map(i => this.planSubframe(signals[i], n, sampleBits[i])) };
+    }
+
+    const plans = signals.map((s, i) => this.planSubframe(s, n, sampleBits[i]));
+    const best = options.reduce((a, b) =>
+      plans[b.pair[0]].bits + plans[b.pair[1]].bits < plans[a.pair[0]].bits + plans[a.pair[1]].bits ? b : a);
+    return { assignment: best.assignment, plans: best.pair.map(i => plans[i]) };
+  }
+
+  private planSubframe(input: Int32Array, n: number, bps: number): SubframePlan {
+    let orAll = 0;
+    let constant = true;
+    for (let i = 0; i < n; i++) {
+      orAll |= input[i];
+      if (input[i] !== input[0]) constant = false;
+    }
+    if (constant) {
+      return { kind: 'constant', bits: 8 + bps, samples: input, sampleBits: bps, wasted: 0, order: 0 };
+    }
+
+    // Wasted bits: trailing zeros common to every sample are signalled once instead of coded per sample
+    let wasted = 0;
+    while (((orAll >> wasted) & 1) === 0 && wasted < bps - 1) wasted++;
+    let samples = input;
+    if (wasted > 0) {
+      samples = new Int32Array(n);
+      for (let i = 0; i < n; i++) samples[i] = input[i] >> wasted;
+    }
+    const sampleBits = bps - wasted;
+    const headerBits = 8 + wasted;
+
+    let best: SubframePlan = { kind: 'verbatim', bits: headerBits + n * sampleBits, samples, sampleBits, wasted, order: 0 };
+
+    const fixed = this.planFixed(samples, n, sampleBits, headerBits);
+    if (fixed && fixed.bits < best.bits) best = fixed;
+
+    if (this.preset.maxLpcOrder > 0 && n > this.preset.maxLpcOrder * 2) {
+      const lpc = this.planLpc(samples, n, sampleBits, headerBits);
+      if (lpc && lpc.bits < best.bits) best = lpc;
+    }
+
+    best.wasted = wasted;
+    return best;
+  }
+
+  private planFixed(x: Int32Array, n: number, sampleBits: number, headerBits: number): SubframePlan | null {
+    const maxOrder = Math.min(4, n - 1);
+    const orders = this.preset.exhaustiveModelSearch ? Array.from({ length: maxOrder + 1 }, (_, i) => i) : [this.guessFixedOrder(x, n, maxOrder)];
+
+    let best: SubframePlan | null = null;
+    for (const order of orders) {
+      const residual = new Float64Array(n);
+      for (let i = order; i < n; i++) {
+        switch (order) {
+          case 0: residual[i] = x[i]; break;
+          case 1: residual[i] = x[i] - x[i - 1]; break;
+          case 2: residual[i] = x[i] - 2 * x[i - 1] + x[i - 2]; break;
+          case 3: residual[i] = x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3]; break;
+          default: residual[i] = x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4];
+        }
+      }
+      const rice = this.planRice(residual, n, order);
+      if (!rice) continue;
+      const bits = headerBits + order * sampleBits + rice.bits;
+      if (!best || bits < best.bits) {
+        best = {
+          kind: 'fixed', bits, samples: x, sampleBits, wasted: 0, order,
+          residual, partitionOrder: rice.partitionOrder, riceParams: rice.params
+        };
+      }
+    }
+    return best;
+  }
+
+  private guessFixedOrder(x: Int32Array, n: number, maxOrder: number): number {
+    const sums = [0, 0, 0, 0, 0];
+    for (let i = 4; i < n; i++) {
+      const e0 = x[i];
+      const e1 = e0 - x[i - 1];
+      const e2 = e1 - (x[i - 1] - x[i - 2]);
+      const e3 = e2 - (x[i - 1] - 2 * x[i - 2] + x[i - 3]);
+      const e4 = e3 - (x[i - 1] - 3 * x[i - 2] + 3 * x[i - 3] - x[i - 4]);
+      sums[0] += Math.abs(e0); sums[1] += Math.abs(e1); sums[2] += Math.abs(e2);
+      sums[3] += Math.abs(e3); sums[4] += Math.abs(e4);
+    }
+    let order = 0;
+    for (let o = 1; o <= maxOrder; o++) if (sums[o] < sums[order]) order = o;
+    return order;
+  }
+
+  private planLpc(x: Int32Array, n: number, sampleBits: number, headerBits: number): SubframePlan | null {
+    const maxOrder = this.preset.maxLpcOrder;
+
+    // Tukey(0.5) window before autocorrelation, as the reference encoder does by default
+    const windowed = new Float64Array(n);
+    const taper = Math.floor(n * 0.25);
+    for (let i = 0; i < n; i++) {
+      let wv = 1;
+      if (i < taper) wv = 0.5 * (1 - Math.cos((Math.PI * i) / taper));
+      else if (i >= n - taper) wv = 0.5 * (1 - Math.cos((Math.PI * (n - 1 - i)) / taper));
+      windowed[i] = x[i] * wv;
+    }
+
+    const autoc = new Float64Array(maxOrder + 1);
+    for (let lag = 0; lag <= maxOrder; lag++) {
+      let sum = 0;
+      for (let i = lag; i < n; i++) sum += windowed[i] * windowed[i - lag];
+      autoc[lag] = sum;
+    }
+    if (autoc[0] === 0) return null;
+
+    const { coefs, errors } = this.levinson(autoc, maxOrder);
+    const precision = this.qlpPrecision(n);
+
+    let orders: number[];
+    if (this.preset.exhaustiveModelSearch) {
+      orders = Array.from({ length: maxOrder }, (_, i) => i + 1);
+    } else {
+      let bestOrder = 1;
+      let bestBits = Infinity;
+      for (let order = 1; order <= maxOrder; order++) {
+        const err = errors[order - 1];
+        const perSample = err > 0 ? Math.max(0, 0.5 * Math.log2((0.5 * err) / n)) : 0;
+        const bits = perSample * (n - order) + order * (precision + sampleBits);
+        if (bits < bestBits) { bestBits = bits; bestOrder = order; }
+      }
+      orders = [bestOrder];
+    }
+
+    let best: SubframePlan | null = null;
+    for (const order of orders) {
+      const q = this.quantizeCoefficients(coefs[order - 1], precision);
+      if (!q) continue;
+      const residual = new Float64Array(n);
+      const div = Math.pow(2, q.shift);
+      let overflow = false;
+      for (let i = order; i < n; i++) {
+        let sum = 0;
+        for (let j = 0; j < order; j++) sum += q.qlp[j] * x[i - j - 1];
+        const r = x[i] - Math.floor(sum / div);
+        if (r > 0x7fffffff || r < -0x80000000) { overflow = true; break; }
+        residual[i] = r;
+      }
+      if (overflow) continue;
+      const rice = this.planRice(residual, n, order);
+      if (!rice) continue;
+      const bits = headerBits + order * sampleBits + 4 + 5 + order * precision + rice.bits;
+      if (!best || bits < best.bits) {
+        best = {
+          kind: 'lpc', bits, samples: x, sampleBits, wasted: 0, order,
+          qlp: q.qlp, precision, shift: q.shift, residual,
+          partitionOrder: rice.partitionOrder, riceParams: rice.params
+        };
+      }
+    }
+    return best;
+  }
+
+  private levinson(autoc: Float64Array, maxOrder: number): { coefs: Float64Array[]; errors: number[] } {
+    const coefs: Float64Array[] = [];
+    const errors: number[] = [];
+    let a = new Float64Array(0);
+    let err = autoc[0];
+    for (let m = 1; m <= maxOrder; m++) {
+      let acc = autoc[m];
+      for (let j = 1; j < m; j++) acc -= a[j - 1] * autoc[m - j];
+      const k = err > 0 ? acc / err : 0;
+      const next = new Float64Array(m);
+      next[m - 1] = k;
+      for (let j = 1; j < m; j++) next[j - 1] = a[j - 1] - k * a[m - j - 1];
+      err *= 1 - k * k;
+      a = next;
+      coefs.push(next);
+      errors.push(err);
+    }
+    return { coefs, errors };
+  }
+
+  private qlpPrecision(n: number): number {
+    let precision = 13;
+    if (n <= 192) precision = 7;
+    else if (n <= 384) precision = 8;
+    else if (n <= 576) precision = 9;
+    else if (n <= 1152) precision = 10;
+    else if (n <= 2304) precision = 11;
+    else if (n <= 4608) precision = 12;
+    return this.bitsPerSample > 16 ? Math.min(15, precision + 2) : precision;
+  }
+
+  private quantizeCoefficients(lp: Float64Array, precision: number): { qlp: Int32Array; shift: number } | null {
+    let cmax = 0;
+    for (const c of lp) cmax = Math.max(cmax, Math.abs(c));
+    if (cmax <= 0 || !isFinite(cmax)) return null;
+
+    const log2cmax = Math.floor(Math.log2(cmax));
+    let shift = precision - 1 - log2cmax - 1;
+    if (shift > 15) shift = 15;
+    if (shift < 0) return null;
+
+    const qmax = (1 << (precision - 1)) - 1;
+    const qmin = -(1 << (precision - 1));
+    const qlp = new Int32Array(lp.length);
+    let error = 0;
+    for (let i = 0; i < lp.length; i++) {
+      error += lp[i] * (1 << shift);
+      const q = Math.max(qmin, Math.min(qmax, Math.round(error)));
+      error -= q;
+      qlp[i] = q;
+    }
+    return { qlp, shift };
+  }
+
+  /** Picks the partition order and per-partition Rice parameters that minimise the residual's coded size. */
+  private planRice(residual: Float64Array, n: number, order: number): RicePlan | null {
+    let maxP = this.preset.maxPartitionOrder;
+    while (maxP > 0 && ((n % (1 << maxP)) !== 0 || (n >> maxP) <= order)) maxP--;
+    if ((n >> maxP) < order) return null;
+
+    // Per-partition sums of the zig-zag folded residual at the finest order, merged upwards
+    const parts = 1 << maxP;
+    let sums = new Float64Array(parts);
+    let counts = new Float64Array(parts);
+    const partLen = n >> maxP;
+    for (let p = 0; p < parts; p++) {
+      const from = p === 0 ? order : p * partLen;
+      const to = (p + 1) * partLen;
+      let s = 0;
+      for (let i = from; i < to; i++) {
+        const r = residual[i];
+        s += r >= 0 ? 2 * r : -2 * r - 1;
+      }
+      sums[p] = s;
+      counts[p] = to - from;
+    }
+
+    let best: RicePlan | null = null;
+    for (let p = maxP; p >= 0; p--) {
+      const params = new Uint8Array(1 << p);
+      let bits = 0;
+      let maxParam = 0;
+      for (let i = 0; i < params.length; i++) {
+        const { k, cost } = this.bestRiceParam(sums[i], counts[i]);
+        params[i] = k;
+        bits += cost;
+        maxParam = Math.max(maxParam, k);
+      }
+      bits += 2 + 4 + params.length * (maxParam > 14 ? 5 : 4);
+      if (!best || bits < best.bits) best = { bits, partitionOrder: p, params };
+
+      if (p > 0) {
+        const mergedSums = new Float64Array(1 << (p - 1));
+        const mergedCounts = new Float64Array(1 << (p - 1));
+        for (let i = 0; i < mergedSums.length; i++) {
+          mergedSums[i] = sums[2 * i] + sums[2 * i + 1];
+          mergedCounts[i] = counts[2 * i] + counts[2 * i + 1];
+        }
+        sums = mergedSums;
+        counts = mergedCounts;
+      }
+    }
+    return best;
+  }
+
+  private bestRiceParam(sum: number, count: number): { k: number; cost: number } {
+    if (count === 0 || sum === 0) return { k: 0, cost: count };
+    const mean = sum / count;
+    const guess = Math.max(0, Math.min(30, Math.floor(Math.log2(mean * Math.LN2 + 1e-9))));
+    let k = guess;
+    let cost = Infinity;
+    for (const cand of [guess - 1, guess, guess + 1]) {
+      if (cand < 0 || cand > 30) continue;
+      const c = count * (cand + 1) + sum / Math.pow(2, cand);
+      if (c < cost) { cost = c; k = cand; }
+    }
+    return { k, cost: Math.ceil(cost) };
+  }
+
+  private writeSubframe(plan: SubframePlan, n: number) {
+    const w = this.writer;
+    const { samples, sampleBits, wasted, order } = plan;
+    w.write(0, 1);
+    switch (plan.kind) {
+      case 'constant': w.write(0b000000, 6); break;
+      case 'verbatim': w.write(0b000001, 6); break;
+      case 'fixed': w.write(0b001000 | order, 6); break;
+      case 'lpc': w.write(0b100000 | (order - 1), 6); break;
+    }
+    if (wasted > 0) {
+      w.write(1, 1);
+      w.writeZeros(wasted - 1);
+      w.write(1, 1);
+    } else {
+      w.write(0, 1);
+    }
+
+    if (plan.kind === 'constant') {
+      w.writeSigned(samples[0], sampleBits);
+      return;
+    }
+    if (plan.kind === 'verbatim') {
+      for (let i = 0; i < n; i++) w.writeSigned(samples[i], sampleBits);
+      return;
+    }
+
+    for (let i = 0; i < order; i++) w.writeSigned(samples[i], sampleBits);
+    if (plan.kind === 'lpc') {
+      w.write(plan.precision! - 1, 4);
+      w.writeSigned(plan.shift!, 5);
+      for (let i = 0; i < order; i++) w.writeSigned(plan.qlp![i], plan.precision!);
+    }
+    this.writeResidual(plan.residual!, n, order, plan.partitionOrder!, plan.riceParams!);
+  }
+
+  private writeResidual(residual: Float64Array, n: number, order: number, partitionOrder: number, params: Uint8Array) {
+    const w = this.writer;
+    const rice2 = params.some(k => k > 14);
+    w.write(rice2 ? 1 : 0, 2);
+    w.write(partitionOrder, 4);
+    const partLen = n >> partitionOrder;
+    for (let p = 0; p < params.length; p++) {
+      const k = params[p];
+      w.write(k, rice2 ? 5 : 4);
+      const from = p === 0 ? order : p * partLen;
+      const to = (p + 1) * partLen;
+      for (let i = from; i < to; i++) {
+        const r = residual[i];
+        w.writeRice(r >= 0 ? 2 * r : -2 * r - 1, k);
+      }
+    }
+  }
+
+  private blockSizeCode(n: number): number {
+    if (n === 192) return 1;
+    for (let k = 0; k < 4; k++) if (n === 576 << k) return 2 + k;
+    for (let k = 0; k < 8; k++) if (n === 256 << k) return 8 + k;
+    return n <= 256 ? 6 : 7;
+  }
+
+  private writeUtf8(value: number) {
+    const w = this.writer;
+    if (value < 0x80) {
+      w.write(value, 8);
+      return;
+    }
+    let extra = 1;
+    while (value >= Math.pow(2, 5 * extra + 6)) extra++;
+    const lead = ((0xff << (7 - extra)) & 0xff) | Math.floor(value / Math.pow(2, 6 * extra));
+    w.write(lead & 0xff, 8);
+    for (let i = extra - 1; i >= 0; i--) w.write(0x80 | (Math.floor(value / Math.pow(2, 6 * i)) & 0x3f), 8);
+  }
+
+  private hashBlock(block: Int32Array[], n: number) {
+    const bytesPerSample = Math.ceil(this.bitsPerSample / 8);
+    const size = n * this.numChannels * bytesPerSample;
+    if (this.md5Scratch.length < size) this.md5Scratch = new Uint8Array(size);
+    const out = this.md5Scratch;
+    let o = 0;
+    for (let i = 0; i < n; i++) {
+      for (let ch = 0; ch < this.numChannels; ch++) {
+        const s = block[ch][i];
+        for (let b = 0; b < bytesPerSample; b++) out[o++] = (s >> (8 * b)) & 0xff;
+      }
+    }
+    this.md5.update(out.subarray(0, size));
+  }
+
+  private crc8(bytes: Uint8Array, from: number, to: number): number {
+    let crc = 0;
+    for (let i = from; i < to; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+    return crc;
+  }
+
+  private crc16(bytes: Uint8Array, from: number, to: number): number {
+    let crc = 0;
+    for (let i = from; i < to; i++) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]];
+    return crc;
+  }
+}
@@ -0,0 +1,160 @@
+
+import { HarmonicCompatibility, MusicalKey } from '../types';
+import { FFT } from './fft';
+
+// Krumhansl–Kessler probe-tone ratings, from the tonic upwards
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+const NOTE_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const A_PITCH_CLASS = 9;
+
+const FRAME_SECONDS = 0.2;
+const MAX_FRAMES = 150;
+const MIN_HZ = 60;
+const MAX_HZ = 2100;
+// Correlation lead over the runner-up that counts as full confidence
+const CLEAR_MARGIN = 0.15;
+// Scale degrees in semitones above the tonic (natural minor), and the ones a retune moves an
+// out-of-scale focus tone to: tonic, fifth, fourth, third
+const SCALE_DEGREES = { major: [0, 2, 4, 5, 7, 9, 11], minor: [0, 2, 3, 5, 7, 8, 10] };
+const CONSONANT_DEGREES = { major: [0, 7, 5, 4], minor: [0, 7, 5, 3] };
+
+/**
+ * Key and tuning from a chroma vector. Spectral peaks from frames spread across the track are
+ * folded into pitch classes after the track's own tuning (its offset from A=440) is found from
+ * where those peaks sit between semitones. The chroma is then correlated with the major and minor
+ * key profiles in all 12 rotations.
+ */
+export class KeyDetector {
+  static analyze(channels: Float32Array[], sampleRate: number): MusicalKey {
+    const peaks = this.spectralPeaks(channels, sampleRate);
+
+    // Circular mean of each peak's offset from the nearest 440-based semitone
+    let sx = 0, sy = 0;
+    for (const { semis, weight } of peaks) {
+      const angle = 2 * Math.PI * (semis - Math.round(semis));
+      sx += weight * Math.cos(angle);
+      sy += weight * Math.sin(angle);
+    }
+    const offset = Math.atan2(sy, sx) / (2 * Math.PI);
+
+    const chroma = new Array(12).fill(0);
+    for (const { semis, weight } of peaks) {
+      const pc = (((Math.round(semis - offset) + A_PITCH_CLASS) % 12) + 12) % 12;
+      chroma[pc] += weight;
+    }
+    const max = Math.max(...chroma);
+    const normalized = chroma.map(c => (max > 0 ? Math.round((c / max) * 1000) / 1000 : 0));
+
+    const scores: { tonic: number; mode: 'major' | 'minor'; r: number }[] = [];
+    for (let tonic = 0; tonic < 12; tonic++) {
+      scores.push({ tonic, mode: 'major', r: this.correlate(chroma, MAJOR_PROFILE, tonic) });
+      scores.push({ tonic, mode: 'minor', r: this.correlate(chroma, MINOR_PROFILE, tonic) });
+    }
+    scores.sort((a, b) => b.r - a.r);
+    const [best, second] = scores;
+
+    return {
+      tonic: best.tonic,
+      mode: best.mode,
+      name: `${NOTE_NAMES[best.tonic]} ${best.mode}`,
+      confidence: Math.round(Math.max(0, best.r) * Math.min(1, (best.r - second.r) / CLEAR_MARGIN) * 100) / 100,
+      tuningHz: Math.round(440 * Math.pow(2, offset / 12) * 10) / 10,
+      chroma: normalized
+    };
+  }
+
+  /**
+   * How well a steady tone at `toneHz` sits with music in `key`, after the music is shifted by
+   * `shiftCents`. The tone's scale degree is weighted by the key profile (tonic and fifth highest,
+   * out-of-scale notes lowest) and scaled down as it strays from the music's semitone grid, to zero at
+   * a quarter tone. Also suggests the total shift that puts the tone exactly on a scale note.
+   */
+  static compatibility(key: MusicalKey, toneHz: number, shiftCents = 0): HarmonicCompatibility {
+    const tuning = key.tuningHz * Math.pow(2, shiftCents / 1200);
+    // The tone's position in semitones above C, on the music's (shifted) grid
+    const position = A_PITCH_CLASS + 12 * Math.log2(toneHz / tuning);
+    const nearest = Math.round(position);
+    const centsOff = Math.round((position - nearest) * 100);
+    const degree = (((nearest - key.tonic) % 12) + 12) % 12;
+    const profile = key.mode === 'major' ? MAJOR_PROFILE : MINOR_PROFILE;
+    const weight = profile[degree] / profile[0];
+    const score = Math.max(0, weight * (1 - Math.abs(centsOff) / 50));
+
+    // Shifting the music up by s cents moves the tone down s cents relative to it. A tone already on
+    // a scale note only needs its detuning taken out; any other goes to the nearest consonant degree.
+    let move = position - nearest;
+    if (!SCALE_DEGREES[key.mode].includes(degree)) {
+      move = Infinity;
+      for (const d of CONSONANT_DEGREES[key.mode]) {
+        const target = key.tonic + d;
+        const semis = position - target - 12 * Math.round((position - target) / 12);
+        if (Math.abs(semis) < Math.abs(move)) move = semis;
+      }
+    }
+
+    return {
+      score: Math.round(score * 100) / 100,
+      note: NOTE_NAMES[((nearest % 12) + 12) % 12],
+      degree,
+      centsOff,
+      suggestedShiftCents: Math.round(shiftCents + move * 100)
+    };
+  }
+
+  /** Interpolated spectral peaks between MIN_HZ and MAX_HZ, as semitones from A4, weighted by magnitude. */
+  private static spectralPeaks(channels: Float32Array[], sampleRate: number): { semis: number; weight: number }[] {
+    const n = FFT.nextPowerOfTwo(Math.round(FRAME_SECONDS * sampleRate));
+    const length = channels[0].length;
+    const count = Math.min(MAX_FRAMES, Math.floor(length / n));
+    const fft = new FFT(n);
+    const re = new Float64Array(n);
+    const im = new Float64Array(n);
+    const mag = new Float64Array(n / 2);
+    const lo = Math.max(2, Math.floor((MIN_HZ * n) / sampleRate));
+    const hi = Math.min(n / 2 - 2, Math.ceil((MAX_HZ * n) / sampleRate));
+    const peaks: { semis: number; weight: number }[] = [];
+
+    for (let f = 0; f < count; f++) {
+      const start = Math.floor((f / count) * (length - n));
+      for (let i = 0; i < n; i++) {
+        let v = 0;
+        for (const ch of channels) v += ch[start + i];
+        re[i] = (v / channels.length) * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / n));
+        im[i] = 0;
+      }
+      fft.forward(re, im);
+      let frameMax = 0;
+      for (let k = lo - 1; k <= hi + 1; k++) {
+        mag[k] = Math.hypot(re[k], im[k]);
+        if (mag[k] > frameMax) frameMax = mag[k];
+      }
+      if (frameMax === 0) continue;
+
+      // Each frame counts equally; peaks under -40 dB of the frame's largest are left out as noise
+      for (let k = lo; k <= hi; k++) {
+        const m = mag[k];
+        if (m < frameMax * 0.01 || m <= mag[k - 1] || m < mag[k + 1]) continue;
+        const a = Math.log(mag[k - 1] + 1e-12), b = Math.log(m), c = Math.log(mag[k + 1] + 1e-12);
+        const denom = a - 2 * b + c;
+        const shift = denom < 0 ? (0.5 * (a - c)) / denom : 0;
+        const hz = ((k + shift) * sampleRate) / n;
+        peaks.push({ semis: 12 * Math.log2(hz / 440), weight: m / frameMax });
+      }
+    }
+    return peaks;
+  }
+
+  private static correlate(chroma: number[], profile: number[], tonic: number): number {
+    const rotated = chroma.map((_, pc) => profile[(pc - tonic + 12) % 12]);
+    const mx = chroma.reduce((a, b) => a + b, 0) / 12;
+    const my = rotated.reduce((a, b) => a + b, 0) / 12;
+    let num = 0, vx = 0, vy = 0;
+    for (let i = 0; i < 12; i++) {
+      num += (chroma[i] - mx) * (rotated[i] - my);
+      vx += (chroma[i] - mx) ** 2;
+      vy += (rotated[i] - my) ** 2;
+    }
+    return vx > 0 && vy > 0 ? num / Math.sqrt(vx * vy) : 0;
+  }
+}
@@ -0,0 +1,92 @@
+
+import { TruePeakDetector } from './truePeak';
+
+/**
+ * Streaming look-ahead true-peak limiter. The gain each frame needs to keep its inter-sample peak
+ * under the ceiling goes through a trailing minimum over the look-ahead window, an exponential
+ * release, and a moving average over the same window. Because the average only looks forward from
+ * a peak into frames whose minimum already includes it, the gain is fully down by the time the
+ * peak leaves the delay line, and it ramps there smoothly instead of stepping.
+ */
+export class TruePeakLimiter {
+  readonly latency: number;
+  private readonly detector: TruePeakDetector;
+  private readonly window: number;
+  private readonly ceiling: number;
+  private readonly releaseCoef: number;
+
+  // Monotonic deque of (position, required gain) for the trailing minimum
+  private readonly minPos: Float64Array;
+  private readonly minVal: Float64Array;
+  private head = 0;
+  private tail = 0;
+
+  private envelope = 1;
+  private readonly envRing: Float64Array;
+  private envSum: number;
+  private readonly delay: Float32Array[];
+  private frame = 0;
+  private lowestGain = 1;
+
+  constructor(numChannels: number, sampleRate: number, ceilingDb: number, lookaheadMs = 5, releaseMs = 150) {
+    this.detector = new TruePeakDetector(numChannels);
+    this.window = Math.max(1, Math.round((lookaheadMs / 1000) * sampleRate));
+    this.ceiling = Math.pow(10, ceilingDb / 20);
+    this.releaseCoef = Math.exp(-1 / ((releaseMs / 1000) * sampleRate));
+    this.latency = TruePeakDetector.latency + this.window - 1;
+
+    this.minPos = new Float64Array(this.window + 1);
+    this.minVal = new Float64Array(this.window + 1);
+    this.envRing = new Float64Array(this.window).fill(1);
+    this.envSum = this.window;
+    this.delay = Array.from({ length: numChannels }, () => new Float32Array(this.latency + 1));
+  }
+
+  /** Largest gain reduction applied so far, in dB (0 or negative). */
+  get maxReductionDb(): number {
+    return 20 * Math.log10(this.lowestGain);
+  }
+
+  /**
+   * Limits `block` and returns the same number of frames, `latency` frames late. Feed `latency`
+   * frames of silence at the end to flush the tail.
+   */
+  process(block: Float32Array[]): Float32Array[] {
+    const length = block[0].length;
+    const peaks = this.detector.process(block);
+    const out = block.map(() => new Float32Array(length));
+    const size = this.minPos.length;
+    const ring = this.latency + 1;
+
+    for (let i = 0; i < length; i++) {
+      // `k` is the frame the detector just reported on (frames before the first read as silence)
+      const k = this.frame - TruePeakDetector.latency;
+      const required = k >= 0 && peaks[i] > this.ceiling ? this.ceiling / peaks[i] : 1;
+
+      while (this.tail !== this.head && this.minVal[(this.tail - 1 + size) % size] >= required) {
+        this.tail = (this.tail - 1 + size) % size;
+      }
+      this.minPos[this.tail] = k;
+      this.minVal[this.tail] = required;
+      this.tail = (this.tail + 1) % size;
+      while (this.minPos[this.head] <= k - this.window) this.head = (this.head + 1) % size;
+      const min = this.minVal[this.head];
+
+      this.envelope = Math.min(min, 1 - (1 - this.envelope) * this.releaseCoef);
+      const slot = this.frame % this.window;
+      this.envSum += this.envelope - this.envRing[slot];
+      this.envRing[slot] = this.envelope;
+      const gain = Math.min(1, this.envSum / this.window);
+      if (gain < this.lowestGain) this.lowestGain = gain;
+
+      const write = this.frame % ring;
+      const read = (this.frame + 1) % ring;
+      for (let ch = 0; ch < block.length; ch++) {
+        this.delay[ch][write] = block[ch][i];
+        out[ch][i] = this.delay[ch][read] * gain;
+      }
+      this.frame++;
+    }
+    return out;
+  }
+}
@@ -0,0 +1,170 @@
+
+import { LoopBoundaries, LoopMatch } from '../types';
+import { FFT } from './fft';
+
+const BANDS = 24;
+const MIN_BAND_HZ = 40;
+// Spectral context compared after the splice, on top of the crossfade span before it
+const AFTER_SECONDS = 0.2;
+const MAX_CONTEXT_SECONDS = 1;
+const WAVEFORM_SECONDS = 0.03;
+const ZERO_CROSSING_SECONDS = 0.002;
+// With a bar-aligned loop only this much change in loop length is allowed, so the grid stays in phase
+const BAR_LENGTH_TOLERANCE = 0.02;
+
+/**
+ * Splice-point search for seamless loops. The repeat crossfades the audio leading up to the loop
+ * end with the audio leading up to the loop start, so those two neighbourhoods should sound alike.
+ * A coarse pass scores candidate pairs on a ~10 ms grid by correlating log band energies across the
+ * crossfade span; a fine pass aligns the waveforms sample-accurately by normalised
+ * cross-correlation, and both points then move together onto a rising zero crossing.
+ */
+export class LoopFinder {
+  static refine(channels: Float32Array[], sampleRate: number, bounds: LoopBoundaries, crossfade: number, searchSeconds = 0.5): LoopMatch {
+    const length = channels[0].length;
+    const loopLength = bounds.outroStart - bounds.introEnd;
+    if (loopLength <= 2 * searchSeconds) return { boundaries: bounds, similarity: 0 };
+
+    const mono = new Float32Array(length);
+    for (const ch of channels) for (let i = 0; i < length; i++) mono[i] += ch[i] / channels.length;
+
+    const n = FFT.nextPowerOfTwo(Math.round(sampleRate * 0.04));
+    const hop = n / 4;
+    const before = Math.round(Math.min(crossfade, MAX_CONTEXT_SECONDS) * sampleRate / hop);
+    const after = Math.round(AFTER_SECONDS * sampleRate / hop);
+    const slide = Math.round(searchSeconds * sampleRate / hop);
+    const stretch = bounds.barDuration ? Math.round(BAR_LENGTH_TOLERANCE * sampleRate / hop) : slide;
+
+    // Band frames for each neighbourhood; frame k describes the splice point at origin + k * hop
+    const startOrigin = Math.round(bounds.introEnd * sampleRate) - (slide + before) * hop;
+    const endOrigin = Math.round(bounds.outroStart * sampleRate) - (slide + stretch + before) * hop;
+    const startFrames = this.bandFrames(mono, sampleRate, startOrigin, 2 * slide + before + after + 1, n, hop);
+    const endFrames = this.bandFrames(mono, sampleRate, endOrigin, 2 * (slide + stretch) + before + after + 1, n, hop);
+
+    // Candidates nearest the proposed points come first, and a farther one must score clearly better
+    let best = { a: slide + before, b: slide + stretch + before, score: -Infinity };
+    for (const s of this.outward(slide)) {
+      for (const d of this.outward(stretch)) {
+        const a = slide + before + s;
+        const b = slide + stretch + before + s + d;
+        const score = this.correlate(startFrames, endFrames, a - before, b - before, before + after + 1);
+        if (score > best.score + 1e-3) best = { a, b, score };
+      }
+    }
+    if (!isFinite(best.score)) return { boundaries: bounds, similarity: 0 };
+
+    let start = startOrigin + best.a * hop;
+    let end = endOrigin + best.b * hop;
+
+    const w = Math.round(WAVEFORM_SECONDS * sampleRate);
+    const { lag, ncc } = this.alignWaveforms(mono, start, end, w, hop);
+    end += lag;
+
+    const shift = this.nearestRisingZero(mono, start, Math.round(ZERO_CROSSING_SECONDS * sampleRate)) - start;
+    if (end + shift < length) {
+      start += shift;
+      end += shift;
+    }
+
+    const introEnd = start / sampleRate;
+    const outroStart = end / sampleRate;
+    const bars = bounds.barDuration ? Math.round(loopLength / bounds.barDuration) : 0;
+    return {
+      boundaries: {
+        introEnd,
+        outroStart,
+        detected: bounds.detected,
+        barDuration: bars > 0 ? (outroStart - introEnd) / bars : undefined
+      },
+      similarity: Math.round((0.5 * Math.max(0, best.score) + 0.5 * Math.max(0, ncc)) * 1000) / 1000
+    };
+  }
+
+  /** Log energies in BANDS log-spaced bands for `count` frames, one every `hop` samples from `origin`. */
+  private static bandFrames(mono: Float32Array, sampleRate: number, origin: number, count: number, n: number, hop: number): (Float64Array | null)[] {
+    const fft = new FFT(n);
+    const re = new Float64Array(n);
+    const im = new Float64Array(n);
+    const edges: number[] = [];
+    for (let b = 0; b <= BANDS; b++) {
+      const hz = MIN_BAND_HZ * Math.pow(sampleRate / 2 / MIN_BAND_HZ, b / BANDS);
+      edges.push(Math.max(1, Math.min(n / 2, Math.round((hz * n) / sampleRate))));
+    }
+
+    const frames: (Float64Array | null)[] = [];
+    for (let k = 0; k < count; k++) {
+      // The frame is centred on its splice point
+      const from = origin + k * hop - n / 2;
+      if (from < 0 || from + n > mono.length) {
+        frames.push(null);
+        continue;
+      }
+      for (let i = 0; i < n; i++) {
+        re[i] = mono[from + i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / n));
+        im[i] = 0;
+      }
+      fft.forward(re, im);
+      const bands = new Float64Array(BANDS);
+      for (let b = 0; b < BANDS; b++) {
+        let e = 0;
+        for (let k2 = edges[b]; k2 < Math.max(edges[b] + 1, edges[b + 1]); k2++) e += re[k2] * re[k2] + im[k2] * im[k2];
+        bands[b] = Math.log(1e-10 + e);
+      }
+      frames.push(bands);
+    }
+    return frames;
+  }
+
+  /** Pearson correlation of the band energies of `count` consecutive frames from each side. */
+  private static correlate(x: (Float64Array | null)[], y: (Float64Array | null)[], xi: number, yi: number, count: number): number {
+    let sx = 0, sy = 0, sxx = 0, syy = 0, sxy = 0, m = 0;
+    for (let k = 0; k < count; k++) {
+      const fx = x[xi + k], fy = y[yi + k];
+      if (!fx || !fy) continue;
+      for (let b = 0; b < BANDS; b++) {
+        sx += fx[b]; sy += fy[b];
+        sxx += fx[b] * fx[b]; syy += fy[b] * fy[b]; sxy += fx[b] * fy[b];
+      }
+      m += BANDS;
+    }
+    if (m === 0) return -Infinity;
+    const cov = sxy - (sx * sy) / m;
+    const vx = sxx - (sx * sx) / m, vy = syy - (sy * sy) / m;
+    return vx > 0 && vy > 0 ? cov / Math.sqrt(vx * vy) : -Infinity;
+  }
+
+  /** Lag (within ±maxLag) that best lines up the waveform around `end` with the one around `start`. */
+  private static alignWaveforms(mono: Float32Array, start: number, end: number, w: number, maxLag: number): { lag: number; ncc: number } {
+    let best = { lag: 0, ncc: -1 };
+    if (start - w < 0 || end + maxLag + w / 2 > mono.length || end - maxLag - w < 0) return best;
+    let ea = 0;
+    for (let i = -w; i < w / 2; i++) ea += mono[start + i] * mono[start + i];
+    for (let lag = -maxLag; lag <= maxLag; lag++) {
+      let dot = 0, eb = 0;
+      for (let i = -w; i < w / 2; i++) {
+        const v = mono[end + lag + i];
+        dot += mono[start + i] * v;
+        eb += v * v;
+      }
+      const ncc = ea > 0 && eb > 0 ? dot / Math.sqrt(ea * eb) : 0;
+      if (ncc > best.ncc) best = { lag, ncc };
+    }
+    return best;
+  }
+
+  /** 0, -1, 1, -2, 2, ... out to ±radius. */
+  private static outward(radius: number): number[] {
+    const out = [0];
+    for (let r = 1; r <= radius; r++) out.push(-r, r);
+    return out;
+  }
+
+  private static nearestRisingZero(mono: Float32Array, at: number, radius: number): number {
+    for (let d = 0; d <= radius; d++) {
+      for (const i of [at - d, at + d]) {
+        if (i > 0 && i < mono.length && mono[i - 1] < 0 && mono[i] >= 0) return i;
+      }
+    }
+    return at;
+  }
+}
@@ -0,0 +1,136 @@
+
+import { TruePeakDetector } from './truePeak';
+
+// Mean-square energy is collected in 100 ms steps; momentary blocks span 4 of them, short-term 30
+const STEP_SECONDS = 0.1;
+const MOMENTARY_STEPS = 4;
+const SHORT_TERM_STEPS = 30;
+const ABSOLUTE_GATE = -70;
+
+interface Biquad {
+  b0: number; b1: number; b2: number; a1: number; a2: number;
+}
+
+const toLufs = (power: number) => (power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity);
+
+/**
+ * ITU-R BS.1770-4 / EBU R128 meter: K-weighting, gated integrated loudness, loudness range and
+ * true peak. Audio is pushed in blocks, and only one number per 100 ms is kept, so it can meter a
+ * session of any length.
+ */
+export class LoudnessMeter {
+  private readonly filters: Biquad[];
+  // Per channel, per filter: [z1, z2] in transposed direct form II
+  private readonly state: Float64Array[];
+  private readonly stepLength: number;
+  private stepPower = 0;
+  private stepFill = 0;
+  private readonly steps: number[] = [];
+  private readonly peakDetector: TruePeakDetector;
+  private peak = 0;
+
+  constructor(private readonly numChannels: number, sampleRate: number) {
+    this.filters = LoudnessMeter.kWeighting(sampleRate);
+    this.state = Array.from({ length: numChannels }, () => new Float64Array(this.filters.length * 2));
+    this.stepLength = Math.round(sampleRate * STEP_SECONDS);
+    this.peakDetector = new TruePeakDetector(numChannels);
+  }
+
+  /**
+   * K-weighting (high-shelf "pre-filter" then RLB high-pass), derived for any sample rate from the
+   * analog prototypes behind the 48 kHz coefficients in the standard.
+   */
+  private static kWeighting(sampleRate: number): Biquad[] {
+    let k = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+    const q1 = 0.7071752369554196;
+    const vh = Math.pow(10, 3.999843853973347 / 20);
+    const vb = Math.pow(vh, 0.4996667741545416);
+    let a0 = 1 + k / q1 + k * k;
+    const shelf = {
+      b0: (vh + (vb * k) / q1 + k * k) / a0,
+      b1: (2 * (k * k - vh)) / a0,
+      b2: (vh - (vb * k) / q1 + k * k) / a0,
+      a1: (2 * (k * k - 1)) / a0,
+      a2: (1 - k / q1 + k * k) / a0
+    };
+
+    k = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+    const q2 = 0.5003270373238773;
+    a0 = 1 + k / q2 + k * k;
+    const highpass = { b0: 1, b1: -2, b2: 1, a1: (2 * (k * k - 1)) / a0, a2: (1 - k / q2 + k * k) / a0 };
+    return [shelf, highpass];
+  }
+
+  push(block: Float32Array[]) {
+    const length = block[0].length;
+    const peaks = this.peakDetector.process(block);
+    for (let i = 0; i < length; i++) if (peaks[i] > this.peak) this.peak = peaks[i];
+
+    let offset = 0;
+    while (offset < length) {
+      const n = Math.min(length - offset, this.stepLength - this.stepFill);
+      for (let ch = 0; ch < this.numChannels; ch++) {
+        const data = block[ch];
+        const z = this.state[ch];
+        let sum = 0;
+        for (let i = offset; i < offset + n; i++) {
+          let x = data[i];
+          for (let f = 0; f < this.filters.length; f++) {
+            const c = this.filters[f];
+            const y = c.b0 * x + z[2 * f];
+            z[2 * f] = c.b1 * x - c.a1 * y + z[2 * f + 1];
+            z[2 * f + 1] = c.b2 * x - c.a2 * y;
+            x = y;
+          }
+          sum += x * x;
+        }
+        // BS.1770 channel weights are 1.0 for left, right and centre
+        this.stepPower += sum;
+      }
+      this.stepFill += n;
+      offset += n;
+      if (this.stepFill === this.stepLength) {
+        this.steps.push(this.stepPower / this.stepLength);
+        this.stepPower = 0;
+        this.stepFill = 0;
+      }
+    }
+  }
+
+  /** Mean power of each `span`-step window, advanced one step at a time. */
+  private windows(span: number): number[] {
+    const out: number[] = [];
+    let sum = 0;
+    for (let i = 0; i < this.steps.length; i++) {
+      sum += this.steps[i];
+      if (i >= span) sum -= this.steps[i - span];
+      if (i >= span - 1) out.push(sum / span);
+    }
+    return out;
+  }
+
+  /** Gated integrated loudness in LUFS (-Infinity for silence). */
+  integrated(): number {
+    const blocks = this.windows(MOMENTARY_STEPS).filter(p => toLufs(p) > ABSOLUTE_GATE);
+    if (blocks.length === 0) return -Infinity;
+    const relativeGate = toLufs(blocks.reduce((a, b) => a + b, 0) / blocks.length) - 10;
+    const gated = blocks.filter(p => toLufs(p) > relativeGate);
+    return toLufs(gated.reduce((a, b) => a + b, 0) / gated.length);
+  }
+
+  /** EBU Tech 3342 loudness range in LU: the 10th to 95th percentile spread of gated short-term loudness. */
+  loudnessRange(): number {
+    const blocks = this.windows(SHORT_TERM_STEPS).map(toLufs).filter(l => l > ABSOLUTE_GATE);
+    if (blocks.length === 0) return 0;
+    const power = blocks.reduce((a, l) => a + Math.pow(10, (l + 0.691) / 10), 0) / blocks.length;
+    const relativeGate = toLufs(power) - 20;
+    const gated = blocks.filter(l => l > relativeGate).sort((a, b) => a - b);
+    const at = (q: number) => gated[Math.min(gated.length - 1, Math.round(q * (gated.length - 1)))];
+    return at(0.95) - at(0.1);
+  }
+
+  /** Highest inter-sample peak seen so far, in dBTP. */
+  truePeak(): number {
+    return this.peak > 0 ? 20 * Math.log10(this.peak) : -Infinity;
+  }
+}
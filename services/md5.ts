@@ -0,0 +1,88 @@
+
+// Per-round left-rotate amounts (RFC 1321, section 3.4)
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+];
+
+const K = new Int32Array(64);
+for (let i = 0; i < 64; i++) K[i] = Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) | 0;
+
+/**
+ * Incremental MD5 digest. Web Crypto does not expose MD5, but FLAC's STREAMINFO block requires it
+ * and the signature has to be built up while frames are encoded rather than over one giant buffer.
+ */
+export class Md5 {
+  private state = new Int32Array([0x67452301, 0xefcdab89 | 0, 0x98badcfe | 0, 0x10325476]);
+  private block = new Uint8Array(64);
+  private words = new Int32Array(16);
+  private blockLen = 0;
+  private totalLen = 0;
+
+  update(bytes: Uint8Array): this {
+    let i = 0;
+    this.totalLen += bytes.length;
+    while (i < bytes.length) {
+      const take = Math.min(64 - this.blockLen, bytes.length - i);
+      this.block.set(bytes.subarray(i, i + take), this.blockLen);
+      this.blockLen += take;
+      i += take;
+      if (this.blockLen === 64) {
+        this.compress();
+        this.blockLen = 0;
+      }
+    }
+    return this;
+  }
+
+  digest(): Uint8Array {
+    const bitLen = this.totalLen * 8;
+    const pad = new Uint8Array((this.blockLen < 56 ? 56 : 120) - this.blockLen + 8);
+    pad[0] = 0x80;
+    // Message length in bits, little-endian 64-bit
+    const lenView = new DataView(pad.buffer, pad.length - 8);
+    lenView.setUint32(0, bitLen >>> 0, true);
+    lenView.setUint32(4, Math.floor(bitLen / 0x100000000), true);
+    this.update(pad);
+
+    const out = new Uint8Array(16);
+    const view = new DataView(out.buffer);
+    for (let i = 0; i < 4; i++) view.setInt32(i * 4, this.state[i], true);
+    return out;
+  }
+
+  static hex(bytes: Uint8Array): string {
+    return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  private compress() {
+    const w = this.words;
+    const b = this.block;
+    for (let i = 0; i < 16; i++) {
+      w[i] = b[i * 4] | (b[i * 4 + 1] << 8) | (b[i * 4 + 2] << 16) | (b[i * 4 + 3] << 24);
+    }
+
+    let a = this.state[0], bb = this.state[1], c = this.state[2], d = this.state[3];
+    for (let i = 0; i < 64; i++) {
+      let f: number, g: number;
+      if (i < 16) { f = (bb & c) | (~bb & d); g = i; }
+      else if (i < 32) { f = (d & bb) | (~d & c); g = (5 * i + 1) & 15; }
+      else if (i < 48) { f = bb ^ c ^ d; g = (3 * i + 5) & 15; }
+      else { f = c ^ (bb | ~d); g = (7 * i) & 15; }
+
+      const tmp = d;
+      d = c;
+      c = bb;
+      const sum = (a + f + K[i] + w[g]) | 0;
+      bb = (bb + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) | 0;
+      a = tmp;
+    }
+
+    this.state[0] = (this.state[0] + a) | 0;
+    this.state[1] = (this.state[1] + bb) | 0;
+    this.state[2] = (this.state[2] + c) | 0;
+    this.state[3] = (this.state[3] + d) | 0;
+  }
+}
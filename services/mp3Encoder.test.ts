@@ -0,0 +1,91 @@
+
+import { describe, expect, it } from 'vitest';
+import { ExportFormat } from '../types';
+import { Mp3Encoder } from './mp3Encoder';
+
+const BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const RATES = [44100, 48000, 32000];
+
+const tag = (bytes: Uint8Array, pos: number) => String.fromCharCode(...bytes.subarray(pos, pos + 4));
+
+// Tones that swell and fade, so VBR frames vary in size
+const music = (seconds: number, sampleRate: number) =>
+  Float32Array.from({ length: seconds * sampleRate }, (_, i) => {
+    const t = i / sampleRate;
+    return 0.4 * Math.sin(2 * Math.PI * 220 * t) * Math.sin(Math.PI * t / 3) ** 2 + 0.1 * Math.sin(2 * Math.PI * 3520 * t) * (t % 2 < 1 ? 1 : 0);
+  });
+
+// Encodes in uneven blocks the way a render does, with the header written over the first bytes at the end
+const render = async (channels: Float32Array[], sampleRate: number, format: ExportFormat) => {
+  const encoder = await Mp3Encoder.create(channels.length, sampleRate, format);
+  const parts = [encoder.header()];
+  for (let pos = 0, n = 3000; pos < channels[0].length; pos += n, n = n === 3000 ? 7919 : 3000) {
+    parts.push(encoder.encode(channels.map(c => c.subarray(pos, pos + n))));
+  }
+  parts.push(encoder.finalize());
+  const header = encoder.header();
+  expect(header.length).toBe(parts[0].length);
+  parts[0] = header;
+  return new Uint8Array(await new Blob(parts).arrayBuffer());
+};
+
+// Start offsets of the frames in an MP3 stream, read header by header
+const frameOffsets = (file: Uint8Array) => {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const offsets: number[] = [];
+  for (let pos = 0; pos + 4 <= file.length;) {
+    const h = view.getUint32(pos);
+    expect(h >>> 21).toBe(0x7ff);
+    offsets.push(pos);
+    pos += Math.floor((144000 * BITRATES[(h >>> 12) & 15]) / RATES[(h >>> 10) & 3]) + ((h >>> 9) & 1);
+  }
+  return offsets;
+};
+
+describe('Mp3Encoder', () => {
+  it('opens a VBR stream with a Xing frame holding its frame count, size and seek table', async () => {
+    const x = music(20, 44100);
+    const file = await render([x, x.map(v => -v)], 44100, 'mp3_standard');
+    const offsets = frameOffsets(file);
+    const view = new DataView(file.buffer);
+    // Stereo side information is 32 bytes after the 4-byte header
+    expect(tag(file, 36)).toBe('Xing');
+    expect(view.getUint32(40)).toBe(0x7);
+    expect(view.getUint32(44)).toBe(offsets.length - 1);
+    expect(view.getUint32(48)).toBe(file.length);
+
+    const toc = file.subarray(52, 152);
+    for (let i = 0; i < 100; i++) {
+      if (i > 0) expect(toc[i]).toBeGreaterThanOrEqual(toc[i - 1]);
+      const exact = (256 * offsets[1 + Math.floor((i / 100) * (offsets.length - 1))]) / file.length;
+      expect(Math.abs(toc[i] - exact)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('tags a CBR stream as Info, and mono after the shorter side information', async () => {
+    const file = await render([music(5, 48000)], 48000, 'mp3_high');
+    const view = new DataView(file.buffer);
+    expect(tag(file, 21)).toBe('Info');
+    expect(view.getUint32(29)).toBe(frameOffsets(file).length - 1);
+    expect(view.getUint32(33)).toBe(file.length);
+  });
+
+  it('keeps the seek table accurate once frame offsets are thinned out', async () => {
+    // About 5600 frames, past the 4096 offsets kept
+    const file = await render([music(180, 32000)], 32000, 'mp3_standard');
+    const offsets = frameOffsets(file);
+    expect(offsets.length).toBeGreaterThan(5000);
+    const toc = file.subarray(37, 137);
+    for (let i = 0; i < 100; i++) {
+      const exact = (256 * offsets[1 + Math.floor((i / 100) * (offsets.length - 1))]) / file.length;
+      expect(Math.abs(toc[i] - exact)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('leaves the fields out of the header until the stream is finished', async () => {
+    const encoder = await Mp3Encoder.create(2, 44100, 'mp3_standard');
+    const header = encoder.header();
+    expect(tag(header, 36)).toBe('Xing');
+    expect(new DataView(header.buffer).getUint32(40)).toBe(0);
+  });
+});
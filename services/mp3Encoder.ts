@@ -0,0 +1,161 @@
+
+import { createMp3Encoder } from 'wasm-media-encoders';
+import { ExportFormat } from '../types';
+
+// MPEG-1 Layer III only defines these three sample rates.
+const MPEG1_SAMPLE_RATES = [32000, 44100, 48000] as const;
+
+// Frames are fed to LAME in slices so the WASM heap never has to hold the whole session.
+const CHUNK_FRAMES = 1152 * 256;
+
+// Samples per MPEG-1 Layer III frame, and kbps by a frame header's bitrate index
+const SAMPLES_PER_FRAME = 1152;
+const BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+
+// Bitrate of the Info frame: the stream's own for CBR; for VBR any that fits the tag, as LAME picks
+const CBR_KBPS = 320;
+const INFO_VBR_KBPS = 128;
+
+// The Info frame's seek table has a byte offset per percent of the duration; frame offsets are kept
+// for every `stride`th frame, thinned out to at most this many so a long session stays small
+const MAX_MARKS = 4096;
+
+// Xing header fields present: frame count, byte count, seek table
+const XING_FLAGS = 0x1 | 0x2 | 0x4;
+
+type LameEncoder = Awaited<ReturnType<typeof createMp3Encoder>>;
+
+/**
+ * MP3 export backed by the LAME encoder compiled to WebAssembly (bundled with the app, no network fetch).
+ * `mp3_high` is 320 kbps CBR; `mp3_standard` is LAME VBR preset V2, which averages roughly 190 kbps.
+ * An instance from `create` encodes a stream block by block. The stream opens with a Xing ("Info" for
+ * CBR) frame holding the frame count, byte count and seek table, which players need for the duration
+ * and for seeking in VBR; `header` leaves them out until the stream is finished, then fills them in.
+ */
+export class Mp3Encoder {
+  private readonly scratch: Float32Array[];
+  // Frames and bytes of the stream so far, after the Info frame; where the next frame starts
+  private frames = 0;
+  private bytes = 0;
+  private nextFrame = 0;
+  // Last bytes seen, for a frame header split between blocks
+  private tail = new Uint8Array(0);
+  // Stream offsets of every `stride`th frame
+  private marks: number[] = [];
+  private stride = 1;
+  private finished = false;
+
+  private constructor(private readonly encoder: LameEncoder, private readonly numChannels: 1 | 2, private readonly sampleRate: number, private readonly vbr: boolean) {
+    this.scratch = Array.from({ length: numChannels }, () => new Float32Array(CHUNK_FRAMES));
+  }
+
+  static async create(numChannels: number, sampleRate: number, format: ExportFormat): Promise<Mp3Encoder> {
+    const encoder = await createMp3Encoder();
+    const channels = Math.min(2, numChannels) as 1 | 2;
+    const outputSampleRate = this.pickOutputSampleRate(sampleRate);
+
+    if (format === 'mp3_high') {
+      encoder.configure({ channels, sampleRate, bitrate: 320, outputSampleRate });
+    } else {
+      encoder.configure({ channels, sampleRate, vbrQuality: 2, outputSampleRate });
+    }
+    return new Mp3Encoder(encoder, channels, outputSampleRate, format !== 'mp3_high');
+  }
+
+  /** The Info frame the file opens with; its fields are left out until `finalize` and filled in after it. */
+  header(): Uint8Array<ArrayBuffer> {
+    const rateIndex = MPEG1_SAMPLE_RATES.indexOf(this.sampleRate as (typeof MPEG1_SAMPLE_RATES)[number]);
+    const kbps = this.vbr ? INFO_VBR_KBPS : CBR_KBPS;
+    const frame = new Uint8Array(this.frameLength(kbps, 0));
+    const view = new DataView(frame.buffer);
+    // MPEG-1 Layer III without CRC; joint stereo or mono, marked original, as LAME's own frames are
+    view.setUint16(0, 0xfffb);
+    frame[2] = (BITRATES.indexOf(kbps) << 4) | ([2, 0, 1][rateIndex] << 2);
+    frame[3] = (this.numChannels === 1 ? 0xc0 : 0x40) | 0x04;
+    // The tag follows the side information, which is left zero: the frame decodes as silence
+    const at = 4 + (this.numChannels === 1 ? 17 : 32);
+    frame.set([...(this.vbr ? 'Xing' : 'Info')].map(c => c.charCodeAt(0)), at);
+    if (!this.finished) return frame;
+
+    const total = frame.length + this.bytes;
+    view.setUint32(at + 4, XING_FLAGS);
+    view.setUint32(at + 8, this.frames);
+    view.setUint32(at + 12, Math.min(total, 0xffffffff));
+    for (let i = 0; i < 100; i++) {
+      const mark = this.marks[Math.min(this.marks.length - 1, Math.floor((i / 100) * this.frames / this.stride))] ?? 0;
+      frame[at + 16 + i] = Math.min(255, Math.floor((256 * (frame.length + mark)) / total));
+    }
+    return frame;
+  }
+
+  /** Encodes a block of any length and returns the MP3 frames completed so far. */
+  encode(channels: Float32Array[]): Uint8Array<ArrayBuffer> {
+    const parts: Uint8Array[] = [];
+    const length = channels[0].length;
+
+    for (let pos = 0; pos < length; pos += CHUNK_FRAMES) {
+      const end = Math.min(pos + CHUNK_FRAMES, length);
+      const slice = this.scratch.map((s, ch) => {
+        const src = channels[ch];
+        const dst = end - pos === CHUNK_FRAMES ? s : s.subarray(0, end - pos);
+        // LAME expects samples strictly within [-1, 1]
+        for (let i = 0; i < dst.length; i++) dst[i] = Math.max(-1, Math.min(1, src[pos + i]));
+        return dst;
+      });
+      // The returned view is owned by the encoder and must be copied before the next call
+      const out = this.encoder.encode(slice);
+      if (out.length) parts.push(out.slice());
+    }
+    return this.scan(this.concat(parts));
+  }
+
+  /** Flushes the encoder's remaining frames; `header` is complete after this. */
+  finalize(): Uint8Array<ArrayBuffer> {
+    const out = this.scan(this.encoder.finalize().slice());
+    this.finished = true;
+    return out;
+  }
+
+  /** Counts the frames that start in `bytes`, the next stretch of the stream, noting where they start. */
+  private scan(bytes: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> {
+    const start = this.bytes;
+    this.bytes += bytes.length;
+    // The byte of a header that holds its bitrate and padding, from this block or the last one's tail
+    const at = (pos: number) => pos >= start ? bytes[pos - start] : this.tail[pos - start + this.tail.length];
+    while (this.nextFrame + 2 < this.bytes) {
+      if (this.frames % this.stride === 0) {
+        if (this.marks.length === MAX_MARKS) {
+          this.marks = this.marks.filter((_, i) => i % 2 === 0);
+          this.stride *= 2;
+        }
+        if (this.frames % this.stride === 0) this.marks.push(this.nextFrame);
+      }
+      const b = at(this.nextFrame + 2);
+      this.nextFrame += this.frameLength(BITRATES[b >> 4], (b >> 1) & 1);
+      this.frames++;
+    }
+    this.tail = bytes.length >= 2 ? bytes.slice(-2) : Uint8Array.of(...this.tail, ...bytes).slice(-2);
+    return bytes;
+  }
+
+  private frameLength(kbps: number, padding: number): number {
+    return Math.floor((SAMPLES_PER_FRAME / 8) * kbps * 1000 / this.sampleRate) + padding;
+  }
+
+  private concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    for (const p of parts) {
+      out.set(p, offset);
+      offset += p.length;
+    }
+    return out;
+  }
+
+  private static pickOutputSampleRate(sampleRate: number): (typeof MPEG1_SAMPLE_RATES)[number] {
+    if ((MPEG1_SAMPLE_RATES as readonly number[]).includes(sampleRate)) return sampleRate as (typeof MPEG1_SAMPLE_RATES)[number];
+    // Prefer the rate family of the source (e.g. 88.2 kHz -> 44.1 kHz) so resampling is a clean ratio
+    if (sampleRate % 44100 === 0) return 44100;
+    return sampleRate < 32000 ? 32000 : 48000;
+  }
+}
@@ -0,0 +1,188 @@
+
+import { NoiseColor, NoiseSettings } from '../types';
+import { FFT } from './fft';
+import { Random } from './random';
+
+// Every colour is normalised to this RMS, so switching colours keeps the level roughly the same
+const TARGET_RMS = Math.pow(10, -18 / 20);
+const PINK_ROWS = 16;
+const BROWN_CORNER_HZ = 5;
+const GREY_FIR_LENGTH = 4096;
+const GREY_PHON = 60;
+const GREY_MAX_BOOST_DB = 30;
+
+// ISO 226:2003 equal-loudness parameters: frequency, exponent af, transfer magnitude Lu, hearing threshold Tf
+const ISO_FREQ = [20, 25, 31.5, 40, 50, 63, 80, 100, 125, 160, 200, 250, 315, 400, 500, 630, 800, 1000, 1250, 1600, 2000, 2500, 3150, 4000, 5000, 6300, 8000, 10000, 12500];
+const ISO_AF = [0.532, 0.506, 0.480, 0.455, 0.432, 0.409, 0.387, 0.367, 0.349, 0.330, 0.315, 0.301, 0.288, 0.276, 0.267, 0.259, 0.253, 0.250, 0.246, 0.244, 0.243, 0.243, 0.243, 0.242, 0.242, 0.245, 0.254, 0.271, 0.301];
+const ISO_LU = [-31.6, -27.2, -23.0, -19.1, -15.9, -13.0, -10.3, -8.1, -6.2, -4.5, -3.1, -2.0, -1.1, -0.4, 0.0, 0.3, 0.5, 0.0, -2.7, -4.1, -1.0, 1.7, 2.5, 1.2, -2.1, -7.1, -11.2, -10.7, -3.1];
+const ISO_TF = [78.5, 68.7, 59.5, 51.1, 44.0, 37.5, 31.5, 26.5, 22.1, 17.9, 14.4, 11.4, 8.6, 6.2, 4.4, 3.0, 2.2, 2.4, 3.5, 1.7, -1.3, -4.2, -6.0, -5.4, -1.5, 6.0, 12.6, 13.9, 12.3];
+
+/**
+ * One mono noise source at unit RMS. Pink is Voss-McCartney (16 rows updated on the trailing-zero
+ * schedule, plus a white row), brown a leaky integrator with its corner at 5 Hz so it never drifts,
+ * and grey white noise through a linear-phase FIR shaped like the inverse 60-phon contour.
+ */
+class ColouredSource {
+  private readonly rng: Random;
+  private readonly rows = new Float64Array(PINK_ROWS);
+  private pinkSum = 0;
+  private counter = 0;
+  private brown = 0;
+  private readonly leak: number;
+  private grey?: { kernel: { re: Float64Array; im: Float64Array }; fft: FFT; tail: Float64Array; block: Float64Array; read: number };
+
+  constructor(private readonly color: NoiseColor, sampleRate: number, seed: number) {
+    this.rng = new Random(seed);
+    this.leak = Math.exp((-2 * Math.PI * BROWN_CORNER_HZ) / sampleRate);
+    for (let r = 0; r < PINK_ROWS; r++) {
+      this.rows[r] = this.white();
+      this.pinkSum += this.rows[r];
+    }
+    if (color === 'grey') {
+      const fft = new FFT(2 * GREY_FIR_LENGTH);
+      const re = new Float64Array(fft.size);
+      const im = new Float64Array(fft.size);
+      re.set(NoiseGenerator.greyKernel(sampleRate));
+      fft.forward(re, im);
+      this.grey = { kernel: { re, im }, fft, tail: new Float64Array(GREY_FIR_LENGTH), block: new Float64Array(GREY_FIR_LENGTH), read: GREY_FIR_LENGTH };
+    }
+    // Let the brown integrator settle so the session does not open on a fade-in
+    if (color === 'brown') for (let i = 0; i < sampleRate / BROWN_CORNER_HZ; i++) this.next();
+  }
+
+  /** Uniform white noise at unit variance. */
+  private white(): number {
+    return (this.rng.next() * 2 - 1) * Math.sqrt(3);
+  }
+
+  next(): number {
+    switch (this.color) {
+      case 'pink': {
+        this.counter = (this.counter + 1) >>> 0;
+        const row = 31 - Math.clz32(this.counter & -this.counter);
+        if (row < PINK_ROWS) {
+          const v = this.white();
+          this.pinkSum += v - this.rows[row];
+          this.rows[row] = v;
+        }
+        return (this.pinkSum + this.white()) / Math.sqrt(PINK_ROWS + 1);
+      }
+      case 'brown':
+        this.brown = this.leak * this.brown + this.white();
+        return this.brown * Math.sqrt(1 - this.leak * this.leak);
+      case 'grey':
+        return this.nextGrey();
+      default:
+        return this.white();
+    }
+  }
+
+  /** Overlap-add FFT convolution, one FIR-length block of white noise at a time. */
+  private nextGrey(): number {
+    const g = this.grey!;
+    if (g.read === GREY_FIR_LENGTH) {
+      const n = g.fft.size;
+      const re = new Float64Array(n);
+      const im = new Float64Array(n);
+      for (let i = 0; i < GREY_FIR_LENGTH; i++) re[i] = this.white();
+      g.fft.forward(re, im);
+      for (let k = 0; k < n; k++) {
+        const r = re[k] * g.kernel.re[k] - im[k] * g.kernel.im[k];
+        im[k] = re[k] * g.kernel.im[k] + im[k] * g.kernel.re[k];
+        re[k] = r;
+      }
+      g.fft.inverse(re, im);
+      for (let i = 0; i < GREY_FIR_LENGTH; i++) {
+        g.block[i] = re[i] + g.tail[i];
+        g.tail[i] = re[i + GREY_FIR_LENGTH];
+      }
+      g.read = 0;
+    }
+    return g.block[g.read++];
+  }
+}
+
+/**
+ * Seeded, non-repeating coloured noise for rendering in consecutive blocks. Left and right mix two
+ * independent sources as cos θ·a ± sin θ·b, so both channels keep the same spectrum and level
+ * while their correlation falls from 1 (decorrelation 0) to 0 (decorrelation 1).
+ */
+export class NoiseStream {
+  private readonly a: ColouredSource;
+  private readonly b: ColouredSource;
+  private readonly mid: number;
+  private readonly side: number;
+
+  constructor(settings: NoiseSettings, sampleRate: number, seed: number) {
+    this.a = new ColouredSource(settings.color, sampleRate, seed);
+    this.b = new ColouredSource(settings.color, sampleRate, seed + 0x632be5ab);
+    const correlation = 1 - Math.max(0, Math.min(1, settings.decorrelation ?? 0.5));
+    const theta = Math.acos(correlation) / 2;
+    this.mid = Math.cos(theta) * TARGET_RMS;
+    this.side = Math.sin(theta) * TARGET_RMS;
+  }
+
+  next(frames: number): Float32Array[] {
+    const left = new Float32Array(frames);
+    const right = new Float32Array(frames);
+    for (let i = 0; i < frames; i++) {
+      const a = this.mid * this.a.next();
+      const b = this.side > 0 ? this.side * this.b.next() : 0;
+      left[i] = a + b;
+      right[i] = a - b;
+    }
+    return [left, right];
+  }
+}
+
+export class NoiseGenerator {
+  /**
+   * Linear-phase grey-noise kernel with unit energy: the gain at each frequency is how much louder
+   * than 1 kHz a tone must be to sound equally loud at 60 phon, capped at +30 dB and rolled off
+   * at 12 dB/octave below 20 Hz.
+   */
+  static greyKernel(sampleRate: number, length = GREY_FIR_LENGTH): Float64Array {
+    const fft = new FFT(length);
+    const re = new Float64Array(length);
+    const im = new Float64Array(length);
+    const reference = this.equalLoudnessSpl(1000);
+    for (let k = 0; k <= length / 2; k++) {
+      const f = (k * sampleRate) / length;
+      const clamped = Math.min(Math.max(f, ISO_FREQ[0]), ISO_FREQ[ISO_FREQ.length - 1]);
+      const db = Math.min(GREY_MAX_BOOST_DB, this.equalLoudnessSpl(clamped) - reference);
+      const rolloff = f < ISO_FREQ[0] ? Math.pow(f / ISO_FREQ[0], 2) : 1;
+      re[k] = Math.pow(10, db / 20) * rolloff;
+      if (k > 0 && k < length / 2) re[length - k] = re[k];
+    }
+    fft.inverse(re, im);
+
+    // The zero-phase response is centred on sample 0; rotate it to the middle and window it
+    const kernel = new Float64Array(length);
+    let energy = 0;
+    for (let i = 0; i < length; i++) {
+      const w = 0.42 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1)) + 0.08 * Math.cos((4 * Math.PI * i) / (length - 1));
+      kernel[i] = re[(i + length / 2) % length] * w;
+      energy += kernel[i] * kernel[i];
+    }
+    const norm = 1 / Math.sqrt(energy);
+    for (let i = 0; i < length; i++) kernel[i] *= norm;
+    return kernel;
+  }
+
+  /** Sound pressure level (dB SPL) that sounds as loud as GREY_PHON at `freq`, per ISO 226:2003. */
+  private static equalLoudnessSpl(freq: number): number {
+    const spl = (i: number) => {
+      const af = 4.47e-3 * (Math.pow(10, 0.025 * GREY_PHON) - 1.15) + Math.pow(0.4 * Math.pow(10, (ISO_TF[i] + ISO_LU[i]) / 10 - 9), ISO_AF[i]);
+      return (10 / ISO_AF[i]) * Math.log10(af) - ISO_LU[i] + 94;
+    };
+    let i = 0;
+    while (i < ISO_FREQ.length - 2 && ISO_FREQ[i + 1] < freq) i++;
+    const x = Math.log(freq / ISO_FREQ[i]) / Math.log(ISO_FREQ[i + 1] / ISO_FREQ[i]);
+    return spl(i) + (spl(i + 1) - spl(i)) * Math.max(0, Math.min(1, x));
+  }
+
+  static describe(settings: NoiseSettings): string {
+    const label = { white: 'White', pink: 'Pink', brown: 'Brown', grey: 'Grey' }[settings.color];
+    return `${label} Noise`;
+  }
+}
@@ -0,0 +1,102 @@
+
+import { FFT } from './fft';
+
+const FRAME_SECONDS = 0.04;
+const HOP_SECONDS = 0.01;
+const BASS_CUTOFF_HZ = 150;
+// Upper edges of the sub-bands for multi-band flux; the last band runs to Nyquist
+const BAND_EDGES_HZ = [150, 400, 1000, 2500, 6000];
+// Onset strength is measured against a local mean over this span, which removes slow level changes
+const DETREND_SECONDS = 1;
+
+export interface OnsetEnvelope {
+  // Onset strength per frame, over the full band and over the bass band only (kick drums, bass notes)
+  strength: Float32Array;
+  bass: Float32Array;
+  // Onset strength in each of BAND_EDGES_HZ's sub-bands, each normalised on its own so quiet bands count
+  bands: Float32Array[];
+  frameRate: number;
+  // Time, in seconds, that frame 0 describes
+  offset: number;
+}
+
+/**
+ * Log-magnitude spectral flux: the summed, half-wave rectified increase in each bin from one
+ * frame to the next, detrended and normalised to unit deviation so thresholds are level-independent.
+ */
+export class OnsetDetector {
+  static analyze(channels: Float32Array[], sampleRate: number): OnsetEnvelope {
+    const length = channels[0].length;
+    const mono = new Float32Array(length);
+    for (const ch of channels) for (let i = 0; i < length; i++) mono[i] += ch[i] / channels.length;
+
+    const n = FFT.nextPowerOfTwo(Math.round(sampleRate * FRAME_SECONDS));
+    const hop = Math.max(1, Math.round(sampleRate * HOP_SECONDS));
+    const fft = new FFT(n);
+    const window = new Float64Array(n);
+    for (let i = 0; i < n; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / n);
+    const bins = n / 2;
+    const bassBins = Math.max(2, Math.round((BASS_CUTOFF_HZ * n) / sampleRate));
+    const bandOf = new Int32Array(bins);
+    for (let k = 0; k < bins; k++) {
+      const hz = (k * sampleRate) / n;
+      const b = BAND_EDGES_HZ.findIndex(edge => hz < edge);
+      bandOf[k] = b < 0 ? BAND_EDGES_HZ.length : b;
+    }
+
+    const frames = Math.max(0, Math.floor((length - n) / hop) + 1);
+    const strength = new Float32Array(frames);
+    const bass = new Float32Array(frames);
+    const bands = Array.from({ length: BAND_EDGES_HZ.length + 1 }, () => new Float32Array(frames));
+    let prev = new Float64Array(bins);
+    let cur = new Float64Array(bins);
+    const re = new Float64Array(n);
+    const im = new Float64Array(n);
+
+    for (let f = 0; f < frames; f++) {
+      const start = f * hop;
+      for (let i = 0; i < n; i++) {
+        re[i] = mono[start + i] * window[i];
+        im[i] = 0;
+      }
+      fft.forward(re, im);
+      let flux = 0, bassFlux = 0;
+      for (let k = 1; k < bins; k++) {
+        cur[k] = Math.log(1 + 1000 * Math.hypot(re[k], im[k]));
+        const rise = f > 0 ? Math.max(0, cur[k] - prev[k]) : 0;
+        flux += rise;
+        if (k < bassBins) bassFlux += rise;
+        bands[bandOf[k]][f] += rise;
+      }
+      strength[f] = flux;
+      bass[f] = bassFlux;
+      [prev, cur] = [cur, prev];
+    }
+
+    const frameRate = sampleRate / hop;
+    const span = Math.max(1, Math.round(DETREND_SECONDS * frameRate));
+    return {
+      strength: this.normalize(strength, span),
+      bass: this.normalize(bass, span),
+      bands: bands.map(b => this.normalize(b, span)),
+      frameRate,
+      // A new onset enters each frame from the right and the flux peaks as it crosses the window's steepest rise
+      offset: (0.75 * n) / sampleRate
+    };
+  }
+
+  private static normalize(data: Float32Array, span: number): Float32Array {
+    const out = new Float32Array(data.length);
+    const prefix = new Float64Array(data.length + 1);
+    for (let i = 0; i < data.length; i++) prefix[i + 1] = prefix[i] + data[i];
+    let sumSq = 0;
+    for (let i = 0; i < data.length; i++) {
+      const lo = Math.max(0, i - span), hi = Math.min(data.length, i + span + 1);
+      out[i] = Math.max(0, data[i] - (prefix[hi] - prefix[lo]) / (hi - lo));
+      sumSq += out[i] * out[i];
+    }
+    const std = Math.sqrt(sumSq / (data.length || 1));
+    if (std > 0) for (let i = 0; i < out.length; i++) out[i] /= std;
+    return out;
+  }
+}
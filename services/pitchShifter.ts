@@ -0,0 +1,51 @@
+
+import { TimeStretcher } from './timeStretch';
+import { Resampler } from './resampler';
+
+const CONCERT_A = 440;
+
+export interface PitchShiftOptions {
+  /** Simultaneous tempo change, as in `TimeStretcher.stretch`. */
+  rate?: number;
+  preserveFormants?: boolean;
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * Pitch shifting independent of tempo: phase-vocoder stretch by the pitch ratio followed by a
+ * band-limited resample back to the target length. Tempo and pitch changes share the one vocoder
+ * pass. With formant preservation the vocoder pre-warps each frame's cepstral envelope so that
+ * voices and instrument bodies don't take on the "chipmunk" colouring of plain resampling.
+ */
+export class PitchShifter {
+  static shift(channels: Float32Array[], sampleRate: number, cents: number, options: PitchShiftOptions = {}): Float32Array[] {
+    const rate = options.rate ?? 1;
+    const outLength = Math.floor(channels[0].length / rate);
+    const ratio = Math.pow(2, cents / 1200);
+    const stretchedLength = Math.round(outLength * ratio);
+
+    const stretched = TimeStretcher.stretchWithMap(
+      channels,
+      sampleRate,
+      stretchedLength,
+      outPos => (outPos * rate) / ratio,
+      'phase_vocoder',
+      { formantWarp: options.preserveFormants === false ? 1 : ratio, onProgress: options.onProgress }
+    );
+    return Resampler.resampleTo(stretched, outLength);
+  }
+
+  /** Cents needed to move concert pitch from A=440 Hz to `referenceHz` (e.g. 432 -> about -31.8). */
+  static retuneCents(referenceHz: number): number {
+    return 1200 * Math.log2(referenceHz / CONCERT_A);
+  }
+
+  /**
+   * Smallest shift (within ±50 cents) that puts `toneHz` exactly on a note of the equal-tempered
+   * grid the music is tuned to, so a steady focus tone reads as an in-key drone rather than a beat.
+   */
+  static harmonicRetuneCents(toneHz: number, referenceHz: number = CONCERT_A): number {
+    const cents = 1200 * Math.log2(toneHz / referenceHz);
+    return cents - 100 * Math.round(cents / 100);
+  }
+}
@@ -0,0 +1,95 @@
+
+import { ProgramKeyframe, RampCurve } from '../types';
+
+type ProgramParameter = 'beatHz' | 'bpm';
+
+/**
+ * Session programs: keyframed values over the timeline, e.g. a beat frequency gliding from 18 Hz
+ * to 10 Hz across the first 20 minutes.
+ */
+export class Program {
+  /**
+   * The value of `param` at any time in seconds, or null when no keyframe sets it.
+   */
+  static curve(keyframes: ProgramKeyframe[] | undefined, param: ProgramParameter): ((sec: number) => number) | null {
+    const points = (keyframes ?? [])
+      .filter(k => (k[param] ?? 0) > 0)
+      .sort((a, b) => a.timeMinutes - b.timeMinutes);
+    if (points.length === 0) return null;
+
+    return (sec: number) => {
+      const min = sec / 60;
+      if (min <= points[0].timeMinutes) return points[0][param]!;
+      for (let i = 1; i < points.length; i++) {
+        const next = points[i];
+        if (min < next.timeMinutes) {
+          const prev = points[i - 1];
+          const x = (min - prev.timeMinutes) / (next.timeMinutes - prev.timeMinutes);
+          return this.interpolate(prev[param]!, next[param]!, x, next.curve ?? 'linear');
+        }
+      }
+      return points[points.length - 1][param]!;
+    };
+  }
+
+  static interpolate(from: number, to: number, x: number, curve: RampCurve): number {
+    switch (curve) {
+      case 'exponential':
+        // Equal ratios per unit time, which is how both pitch and tempo changes are heard
+        return from * Math.pow(to / from, x);
+      case 'smooth':
+        return from + (to - from) * (0.5 - 0.5 * Math.cos(Math.PI * x));
+      case 'hold':
+        return from;
+      default:
+        return from + (to - from) * x;
+    }
+  }
+}
+
+/**
+ * Monotonic map between output (session) time and content time for a playback rate that changes
+ * over the session: content advances by `rateAt(t, c)` seconds per output second, where `c` is the
+ * content position reached at `t` (so the rate can follow the source's own tempo). The integral is
+ * tabulated once on a fine grid, so both directions are cheap to evaluate per sample.
+ */
+export class TimeWarp {
+  private readonly table: Float64Array;
+  private readonly endRate: number;
+
+  constructor(rateAt: (sec: number, content: number) => number, durationSec: number, private readonly step = 0.01) {
+    const points = Math.ceil(durationSec / step) + 2;
+    this.table = new Float64Array(points);
+    let prevRate = rateAt(0, 0);
+    for (let i = 1; i < points; i++) {
+      // Heun's method: the rate at the end of the step is taken at the position predicted by its start
+      const rate = rateAt(i * step, this.table[i - 1] + prevRate * step);
+      this.table[i] = this.table[i - 1] + 0.5 * (prevRate + rate) * step;
+      prevRate = rate;
+    }
+    this.endRate = prevRate;
+  }
+
+  toContent(sec: number): number {
+    if (sec <= 0) return 0;
+    const pos = sec / this.step;
+    const i = Math.floor(pos);
+    const last = this.table.length - 1;
+    if (i >= last) return this.table[last] + (sec - last * this.step) * this.endRate;
+    return this.table[i] + (this.table[i + 1] - this.table[i]) * (pos - i);
+  }
+
+  toOutput(content: number): number {
+    if (content <= 0) return 0;
+    const last = this.table.length - 1;
+    if (content >= this.table[last]) return last * this.step + (content - this.table[last]) / this.endRate;
+
+    let lo = 0, hi = last;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (this.table[mid] <= content) lo = mid; else hi = mid;
+    }
+    const span = this.table[hi] - this.table[lo];
+    return (lo + (span > 0 ? (content - this.table[lo]) / span : 0)) * this.step;
+  }
+}
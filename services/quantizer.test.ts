@@ -0,0 +1,89 @@
+
+import { describe, expect, it } from 'vitest';
+import { FFT } from './fft';
+import { Quantizer } from './quantizer';
+
+const SR = 44100;
+const N = 1 << 18;
+const SEGMENT = 4096;
+// The noise-shaping filter's coefficients, for the spectrum it should produce
+const SHAPING = [1.623, -0.982, 0.109];
+
+// A −30 dBFS 1 kHz carrier, the quiet tone that picks up grit without dither
+const carrier = () => Float32Array.from({ length: N }, (_, i) => 0.0316 * Math.sin((2 * Math.PI * 1000 * i) / SR));
+
+/** Mean power spectrum of `x` (Hann-windowed segments, averaged), per bin up to Nyquist. */
+const spectrum = (x: Float64Array): Float64Array => {
+  const fft = new FFT(SEGMENT);
+  const power = new Float64Array(SEGMENT / 2 + 1);
+  const re = new Float64Array(SEGMENT), im = new Float64Array(SEGMENT);
+  let count = 0;
+  for (let from = 0; from + SEGMENT <= x.length; from += SEGMENT / 2, count++) {
+    for (let i = 0; i < SEGMENT; i++) {
+      re[i] = x[from + i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / SEGMENT));
+      im[i] = 0;
+    }
+    fft.forward(re, im);
+    for (let k = 0; k < power.length; k++) power[k] += re[k] * re[k] + im[k] * im[k];
+  }
+  return power.map(p => p / count);
+};
+
+const bandPower = (power: Float64Array, lo: number, hi: number, weight: (hz: number) => number = () => 1) => {
+  let sum = 0;
+  for (let k = Math.round((lo * SEGMENT) / SR); k < Math.round((hi * SEGMENT) / SR); k++) sum += power[k] * weight((k * SR) / SEGMENT);
+  return sum;
+};
+
+// |1 - C(e^jω)|², the shaping filter's gain on white requantisation error
+const shapingGain = (hz: number) => {
+  const w = (2 * Math.PI * hz) / SR;
+  let re = 1, im = 0;
+  SHAPING.forEach((c, k) => {
+    re -= c * Math.cos(w * (k + 1));
+    im += c * Math.sin(w * (k + 1));
+  });
+  return re * re + im * im;
+};
+
+const error = (x: Float32Array, q: Int32Array) => Float64Array.from(q, (v, i) => v - x[i] * 32768);
+
+describe('Quantizer', () => {
+  it('leaves TPDF-dithered 16-bit error flat, at the 1/4 LSB² of dither plus rounding', () => {
+    const x = carrier();
+    const [q] = Quantizer.quantize([x], 16, { dither: true, noiseShaping: false });
+    const e = error(x, q);
+    const variance = e.reduce((a, v) => a + v * v, 0) / e.length;
+    expect(variance).toBeCloseTo(0.25, 2);
+
+    const power = spectrum(e);
+    const low = bandPower(power, 200, 5000) / 4800, high = bandPower(power, 15000, 20000) / 5000;
+    expect(Math.abs(10 * Math.log10(high / low))).toBeLessThan(0.5);
+  });
+
+  it('shapes the requantisation noise by the whole error-feedback filter', () => {
+    const x = carrier();
+    const [q] = Quantizer.quantize([x], 16, { dither: true, noiseShaping: true });
+    const power = spectrum(error(x, q));
+    const [flat] = Quantizer.quantize([x], 16, { dither: true, noiseShaping: false });
+    const white = spectrum(error(x, flat));
+
+    // Each band holds the white error's power times the filter's gain there
+    for (const [lo, hi] of [[200, 3000], [3000, 8000], [8000, 14000], [16000, 21000]]) {
+      const expected = bandPower(white, lo, hi, shapingGain);
+      expect(Math.abs(10 * Math.log10(bandPower(power, lo, hi) / expected))).toBeLessThan(0.5);
+    }
+  });
+
+  it('quantises block by block exactly as in one piece', () => {
+    const x = carrier();
+    const opts = { dither: true, noiseShaping: true, seed: 7 };
+    const [whole] = Quantizer.quantize([x], 16, opts);
+    const quantizer = new Quantizer(1, 16, opts);
+    const parts = [0, 1000, 65536, N].slice(1).map((end, i, ends) => quantizer.process([x.subarray(i ? ends[i - 1] : 0, end)])[0]);
+    const joined = new Int32Array(N);
+    let at = 0;
+    for (const p of parts) { joined.set(p, at); at += p.length; }
+    expect(joined).toEqual(whole);
+  });
+});
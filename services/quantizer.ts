@@ -0,0 +1,71 @@
+
+import { Random } from './random';
+
+// Three-tap error-feedback filter (Wannamaker's F-weighted design): pushes requantisation noise
+// above ~15 kHz where the ear is least sensitive, at the cost of a slightly higher total noise power.
+const SHAPING_COEFFS = [1.623, -0.982, 0.109];
+
+export interface QuantizeOptions {
+  dither: boolean;
+  noiseShaping: boolean;
+  seed?: number;
+}
+
+/**
+ * Float -> integer PCM conversion. TPDF dither (difference of two uniform variables, ±1 LSB peak)
+ * decorrelates the quantisation error from the signal, so quiet carriers fade into a flat noise floor
+ * instead of harmonic grit. Noise shaping is only applied at 16-bit, where the floor is audible.
+ * An instance carries the dither and shaping state from one block to the next, so a stream quantised
+ * block by block comes out the same as in one piece.
+ */
+export class Quantizer {
+  private readonly scale: number;
+  private readonly shape: boolean;
+  private readonly rngs: Random[];
+  // Last three errors per channel, most recent first
+  private readonly errors: Float64Array[];
+
+  constructor(numChannels: number, bits: number, private readonly opts: QuantizeOptions) {
+    this.scale = Math.pow(2, bits - 1);
+    this.shape = opts.noiseShaping && bits <= 16;
+    this.rngs = Array.from({ length: numChannels }, (_, ch) => new Random((opts.seed ?? 0x5eed) + ch * 7919));
+    this.errors = Array.from({ length: numChannels }, () => new Float64Array(3));
+  }
+
+  static quantize(channels: Float32Array[], bits: number, opts: QuantizeOptions): Int32Array[] {
+    return new Quantizer(channels.length, bits, opts).process(channels);
+  }
+
+  process(channels: Float32Array[]): Int32Array[] {
+    const scale = this.scale;
+    const max = scale - 1;
+    const min = -scale;
+    const shape = this.shape;
+
+    return channels.map((data, ch) => {
+      const rng = this.rngs[ch];
+      const e = this.errors[ch];
+      const out = new Int32Array(data.length);
+      let e1 = e[0], e2 = e[1], e3 = e[2];
+
+      for (let i = 0; i < data.length; i++) {
+        let target = data[i] * scale;
+        if (shape) target -= SHAPING_COEFFS[0] * e1 + SHAPING_COEFFS[1] * e2 + SHAPING_COEFFS[2] * e3;
+
+        const noise = this.opts.dither ? rng.next() - rng.next() : 0;
+        const rounded = Math.round(target + noise);
+        const q = Math.max(min, Math.min(max, rounded));
+        out[i] = q;
+
+        if (shape) {
+          // The whole error is fed back (with dither it reaches 1.5 LSB); only a clipped sample's is
+          // clamped, so clipping can't destabilise the filter
+          const err = q === rounded ? q - target : Math.max(-1, Math.min(1, q - target));
+          e3 = e2; e2 = e1; e1 = err;
+        }
+      }
+      e[0] = e1; e[1] = e2; e[2] = e3;
+      return out;
+    });
+  }
+}
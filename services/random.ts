@@ -0,0 +1,27 @@
+
+/**
+ * Seeded PRNG (mulberry32). Anything stochastic in the render path draws from this instead of
+ * Math.random so the same options always produce the same bytes.
+ */
+export class Random {
+  private state: number;
+
+  constructor(seed = 0x9e3779b9) {
+    this.state = seed >>> 0;
+  }
+
+  /** FNV-1a hash, for deriving a stable seed from a name. */
+  static seedFrom(text: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+    return h >>> 0;
+  }
+
+  /** Uniform in [0, 1). */
+  next(): number {
+    let t = (this.state = (this.state + 0x6d2b79f5) | 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
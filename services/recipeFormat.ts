@@ -0,0 +1,237 @@
+
+import { SessionRecipe } from '../types';
+
+const CURRENT_VERSION = 3;
+// Marks a recipe in a URL fragment: #recipe=<deflated JSON, base64url>
+const FRAGMENT_KEY = 'recipe=';
+// Longest crossfade a recipe may ask for, in seconds
+const MAX_CROSSFADE_SECONDS = 60;
+
+/** A recipe that cannot be read: malformed JSON, a schema violation (with its path) or an unknown version. */
+export class RecipeError extends Error {
+  constructor(message: string, readonly path?: string) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = 'RecipeError';
+  }
+}
+
+// Checks one value, throwing a RecipeError that names where it failed
+type Schema = (value: unknown, path: string) => void;
+
+const fail = (path: string, message: string): never => {
+  throw new RecipeError(message, path);
+};
+
+const num = (min = -Infinity, max = Infinity, integer = false): Schema => (v, path) => {
+  if (typeof v !== 'number' || !Number.isFinite(v)) fail(path, 'expected a number');
+  if ((v as number) < min || (v as number) > max) fail(path, `expected a number from ${min} to ${max}`);
+  if (integer && !Number.isInteger(v)) fail(path, 'expected a whole number');
+};
+
+const str = (pattern?: RegExp): Schema => (v, path) => {
+  if (typeof v !== 'string') fail(path, 'expected a string');
+  if (pattern && !pattern.test(v as string)) fail(path, `expected a string matching ${pattern}`);
+};
+
+const bool: Schema = (v, path) => {
+  if (typeof v !== 'boolean') fail(path, 'expected true or false');
+};
+
+const oneOf = (...values: (string | number)[]): Schema => (v, path) => {
+  if (!values.includes(v as string | number)) fail(path, `expected one of ${values.map(x => JSON.stringify(x)).join(', ')}`);
+};
+
+const list = (item: Schema): Schema => (v, path) => {
+  if (!Array.isArray(v)) fail(path, 'expected a list');
+  (v as unknown[]).forEach((x, i) => item(x, `${path}[${i}]`));
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const record = (item: Schema): Schema => (v, path) => {
+  if (!isObject(v)) fail(path, 'expected an object');
+  for (const [key, x] of Object.entries(v as Record<string, unknown>)) item(x, `${path}.${key}`);
+};
+
+// Fields ending in `?` are optional; any field not listed is an error, which catches misspellings
+const shape = (fields: Record<string, Schema>): Schema => (v, path) => {
+  if (!isObject(v)) fail(path, 'expected an object');
+  const known = new Set<string>();
+  for (const [spec, check] of Object.entries(fields)) {
+    const optional = spec.endsWith('?');
+    const key = optional ? spec.slice(0, -1) : spec;
+    known.add(key);
+    if (v[key] === undefined) {
+      if (!optional) fail(`${path}.${key}`, 'is required');
+    } else {
+      check(v[key], `${path}.${key}`);
+    }
+  }
+  for (const key of Object.keys(v)) if (!known.has(key)) fail(`${path}.${key}`, 'is not a recipe field');
+};
+
+// Picks the alternative by a field only it has
+const variant = (field: string, ifPresent: Schema, otherwise: Schema): Schema => (v, path) =>
+  (isObject(v) && field in v ? ifPresent : otherwise)(v, path);
+
+const tone = shape({
+  mode: oneOf('binaural', 'isochronic', 'monaural'),
+  carrierHz: num(1, 20000),
+  beatHz: num(0, 100),
+  'dutyCycle?': num(0, 1),
+  'pulseShape?': oneOf('square', 'sine', 'triangle'),
+  'edgeMs?': num(0),
+  'amplitudeDb?': num(-120, 0)
+});
+
+const boundaries = shape({ introEnd: num(0), outroStart: num(0), 'barDuration?': num(0) });
+
+const crossfade = shape({ 'seconds?': num(0, MAX_CROSSFADE_SECONDS), 'curve?': oneOf('auto', 'linear', 'equal_power', 's_curve', 'logarithmic', 'beat_synced') });
+
+const options = shape({
+  targetDurationMinutes: num(0),
+  musicVolumeDb: num(),
+  focusVolumeDb: num(),
+  crossfadeDuration: num(0, MAX_CROSSFADE_SECONDS),
+  'crossfades?': shape({ 'loop?': crossfade, 'intro?': crossfade, 'outro?': crossfade }),
+  exportFormat: oneOf('mp3_high', 'mp3_standard', 'wav_lossless', 'flac_lossless'),
+  'flacCompressionLevel?': num(0, 8, true),
+  'bitDepth?': oneOf(16, 24, 32),
+  'dither?': bool,
+  'noiseShaping?': bool,
+  'targetBpm?': num(1),
+  'program?': list(shape({ timeMinutes: num(0), 'beatHz?': num(0, 100), 'bpm?': num(1), 'curve?': oneOf('linear', 'exponential', 'smooth', 'hold') })),
+  'stretchAlgorithm?': oneOf('wsola', 'phase_vocoder'),
+  'pitchShiftCents?': num(),
+  'retuneReferenceHz?': num(1),
+  'preserveFormants?': bool,
+  'sourceBpmOverride?': num(1),
+  'shufflePlaylist?': bool,
+  'targetLufs?': num(-70, 0),
+  'truePeakCeilingDb?': num(-20, 0),
+  'manualBoundaries?': boundaries
+});
+
+const mix = shape({
+  layers: list(shape({
+    id: str(),
+    'trackId?': str(),
+    'noise?': shape({ color: oneOf('white', 'pink', 'brown', 'grey'), 'seed?': num(0, 0xffffffff, true), 'decorrelation?': num(0, 1) }),
+    gainDb: num(),
+    'pan?': num(-1, 1),
+    'mute?': bool,
+    'solo?': bool,
+    loopMode: oneOf('loop', 'sections'),
+    'startMinutes?': num(0),
+    'endMinutes?': num(0),
+    'tempoSync?': bool,
+    'sourceBpm?': num(1),
+    'boundaries?': boundaries,
+    'playlist?': shape({ trackIds: list(str()), 'shuffle?': bool, 'seed?': num(0, 0xffffffff, true) })
+  })),
+  'masterGainDb?': num()
+});
+
+const recipe = shape({
+  version: num(1, CURRENT_VERSION, true),
+  tracks: record(variant('tone', shape({ tone }), shape({ 'sha256?': str(/^[0-9a-f]{64}$/), name: str(), 'path?': str() }))),
+  options,
+  'mix?': mix,
+  'detectionMode?': oneOf('fast', 'accurate', 'tempo_map'),
+  'output?': str()
+});
+
+// The schema as a type guard: whatever passes it is a SessionRecipe
+const isRecipe: (value: unknown, path: string) => asserts value is SessionRecipe = recipe;
+
+// Upgrades keyed by the version they start from; each returns the next version. They see the recipe
+// before any check, so fields are narrowed here and anything malformed is left for the schema to report
+const MIGRATIONS: Record<number, (r: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 1, the CLI's first recipes, had no version field and named each file by its bare path
+  1: r => ({
+    ...r,
+    version: 2,
+    tracks: isObject(r.tracks)
+      ? Object.fromEntries(Object.entries(r.tracks).map(([key, t]) =>
+        [key, typeof t === 'string' ? { name: t.split(/[\\/]/).pop(), path: t } : t]
+      ))
+      : r.tracks ?? {}
+  }),
+  // Version 2 predates crossfade shapes, when every transition was a linear ramp; they stay linear
+  2: r => ({
+    ...r,
+    version: 3,
+    options: isObject(r.options)
+      ? { ...r.options, crossfades: { loop: { curve: 'linear' }, intro: { curve: 'linear' }, outro: { curve: 'linear' } } }
+      : r.options
+  })
+};
+
+/**
+ * The session recipe format: versioned JSON, checked against a schema on the way in. Recipes from
+ * earlier versions are migrated forward one version at a time before they are checked; those from a
+ * later version are refused rather than guessed at. A recipe also travels compressed in a URL fragment.
+ */
+export class RecipeFormat {
+  static readonly version = CURRENT_VERSION;
+
+  static parse(json: string): SessionRecipe {
+    let value: unknown;
+    try {
+      value = JSON.parse(json);
+    } catch (err) {
+      throw new RecipeError(`Not valid JSON (${err instanceof Error ? err.message : err})`);
+    }
+    return this.validate(value);
+  }
+
+  static stringify(r: SessionRecipe): string {
+    return JSON.stringify(r, null, 2);
+  }
+
+  /**
+   * Migrates `value` to the current version and checks it, returning it as a recipe or throwing a
+   * RecipeError. A recipe may be missing tracks its mix refers to, as a session saved before every
+   * file was chosen is; rendering it reports them.
+   */
+  static validate(value: unknown): SessionRecipe {
+    if (!isObject(value)) throw new RecipeError('A recipe must be a JSON object');
+    let r = value;
+    const from = r.version ?? 1;
+    if (typeof from !== 'number' || !Number.isInteger(from) || from < 1) throw new RecipeError('expected a whole number from 1', 'recipe.version');
+    if (from > CURRENT_VERSION) throw new RecipeError(`Recipe version ${from} is newer than this app supports (${CURRENT_VERSION})`);
+    for (let v = from; v < CURRENT_VERSION; v++) r = MIGRATIONS[v](r);
+    isRecipe(r, 'recipe');
+    return r;
+  }
+
+  /** The recipe as a URL fragment, without the leading `#`. */
+  static async toFragment(r: SessionRecipe): Promise<string> {
+    const bytes = new TextEncoder().encode(JSON.stringify(r));
+    const deflated = new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw'))).arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < deflated.length; i += 0x8000) binary += String.fromCharCode(...deflated.subarray(i, i + 0x8000));
+    return FRAGMENT_KEY + btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
+  /** The recipe in a URL fragment (with or without the `#`), or null when the fragment holds none. */
+  static async fromFragment(fragment: string): Promise<SessionRecipe | null> {
+    const text = fragment.replace(/^#/, '');
+    if (!text.startsWith(FRAGMENT_KEY)) return null;
+    let json: string;
+    try {
+      const binary = atob(text.slice(FRAGMENT_KEY.length).replace(/-/g, '+').replace(/_/g, '/'));
+      const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+      json = await new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).text();
+    } catch {
+      throw new RecipeError('The link does not hold a readable recipe');
+    }
+    return this.parse(json);
+  }
+
+  /** SHA-256 of a file's bytes in hex, the key a recipe knows the file by. */
+  static async hash(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+    return Array.from(digest, b => b.toString(16).padStart(2, '0')).join('');
+  }
+}
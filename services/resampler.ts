@@ -0,0 +1,58 @@
+
+// Half-width of the interpolation kernel in zero crossings
+const ZERO_CROSSINGS = 16;
+const TABLE_RESOLUTION = 512;
+
+/**
+ * Band-limited (Blackman-windowed sinc) resampling of raw channel data. When shrinking, the kernel
+ * is widened so its cutoff follows the new Nyquist and nothing aliases.
+ */
+export class Resampler {
+  static resampleTo(channels: Float32Array[], outLength: number): Float32Array[] {
+    return channels.map(data => this.resampleChannel(data, outLength));
+  }
+
+  /** One side of the symmetric kernel, sampled every 1/TABLE_RESOLUTION input samples. */
+  private static kernelTable(cutoff: number, halfWidth: number): Float64Array {
+    const table = new Float64Array(halfWidth * TABLE_RESOLUTION + 2);
+    for (let i = 0; i < table.length; i++) {
+      const x = Math.min(halfWidth, i / TABLE_RESOLUTION);
+      const arg = x * cutoff;
+      const sinc = arg === 0 ? 1 : Math.sin(Math.PI * arg) / (Math.PI * arg);
+      const w = 0.42 + 0.5 * Math.cos((Math.PI * x) / halfWidth) + 0.08 * Math.cos((2 * Math.PI * x) / halfWidth);
+      table[i] = sinc * w;
+    }
+    return table;
+  }
+
+  private static resampleChannel(data: Float32Array, outLength: number): Float32Array {
+    const inLength = data.length;
+    const out = new Float32Array(outLength);
+    if (inLength === 0 || outLength === 0) return out;
+    if (inLength === outLength) {
+      out.set(data);
+      return out;
+    }
+
+    const step = inLength / outLength;
+    const cutoff = Math.min(1, 1 / step) * 0.97;
+    const halfWidth = Math.ceil(ZERO_CROSSINGS / cutoff);
+    const table = this.kernelTable(cutoff, halfWidth);
+
+    for (let j = 0; j < outLength; j++) {
+      const t = j * step;
+      const center = Math.floor(t);
+      let sum = 0, weight = 0;
+      for (let k = center - halfWidth + 1; k <= center + halfWidth; k++) {
+        const pos = Math.abs(t - k) * TABLE_RESOLUTION;
+        const idx = Math.floor(pos);
+        const frac = pos - idx;
+        const h = table[idx] + (table[idx + 1] - table[idx]) * frac;
+        weight += h;
+        if (k >= 0 && k < inLength) sum += data[k] * h;
+      }
+      out[j] = sum / weight;
+    }
+    return out;
+  }
+}
@@ -0,0 +1,260 @@
+
+// How a ramp travels, as a fade-in over 0–1; falling ramps take it mirrored
+export type FadeShape = (x: number) => number;
+
+// One automation event: hold `value` from `time`, or arrive at it by `time` along a ramp, linear
+// unless shaped
+interface GainEvent {
+  time: number;
+  value: number;
+  ramp: boolean;
+  shape?: FadeShape;
+}
+
+/**
+ * Gain automation in session seconds, with the semantics of a Web Audio gain AudioParam: the gain
+ * is `initial` until the first event, `set` jumps at its time, and `ramp` moves from the previous
+ * event's time and value to its own, linearly or along a fade shape. Events at the same time apply in
+ * the order added.
+ */
+export class GainEnvelope {
+  private readonly events: GainEvent[] = [];
+
+  constructor(private readonly initial = 1) {}
+
+  set(value: number, time: number): this {
+    return this.add({ time, value, ramp: false });
+  }
+
+  ramp(value: number, time: number, shape?: FadeShape): this {
+    return this.add({ time, value, ramp: true, shape });
+  }
+
+  /** The gain at each of `frames` frames from session frame `from`, or one number while it holds still. */
+  values(from: number, frames: number, sampleRate: number): number | Float32Array {
+    const events = this.events;
+    let i = this.lastAt(from / sampleRate);
+    const next = events[i + 1];
+    if (!next || (!next.ramp && next.time > (from + frames - 1) / sampleRate)) return this.valueAt(from / sampleRate, i);
+
+    const out = new Float32Array(frames);
+    for (let k = 0; k < frames; k++) {
+      const t = (from + k) / sampleRate;
+      while (i + 1 < events.length && events[i + 1].time <= t) i++;
+      out[k] = this.valueAt(t, i);
+    }
+    return out;
+  }
+
+  private add(event: GainEvent): this {
+    let i = this.events.length;
+    while (i > 0 && this.events[i - 1].time > event.time) i--;
+    this.events.splice(i, 0, event);
+    return this;
+  }
+
+  /** Index of the last event at or before `t`, or -1. */
+  private lastAt(t: number): number {
+    let lo = 0, hi = this.events.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.events[mid].time <= t) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo - 1;
+  }
+
+  private valueAt(t: number, i: number): number {
+    const prev = this.events[i];
+    const next = this.events[i + 1];
+    const t0 = prev ? prev.time : 0;
+    const v0 = prev ? prev.value : this.initial;
+    if (!next?.ramp || next.time <= t0) return v0;
+    if (!next.shape) return v0 + ((next.value - v0) * (t - t0)) / (next.time - t0);
+    const x = (t - t0) / (next.time - t0);
+    return next.value >= v0 ? v0 + (next.value - v0) * next.shape(x) : next.value + (v0 - next.value) * next.shape(1 - x);
+  }
+}
+
+/** A sound placed on the session timeline over frames [start, end). */
+export interface Voice {
+  readonly start: number;
+  readonly end: number;
+  readonly gain: GainEnvelope;
+  // Audio for `frames` frames from session frame `from`; successive reads follow on without gaps
+  read(from: number, frames: number): Float32Array[];
+  // Called once the mix has moved past `end`
+  release?(): void;
+}
+
+/**
+ * Channel data that several voices play, such as the pieces of one playlist track: built when the
+ * first of them reads it and let go once every one of them has been released.
+ */
+export class SharedSource {
+  private channels: Float32Array[] | null = null;
+  private users = 0;
+
+  constructor(private readonly make: () => Float32Array[]) {}
+
+  attach() {
+    this.users++;
+  }
+
+  get(): Float32Array[] {
+    return (this.channels ??= this.make());
+  }
+
+  detach() {
+    if (--this.users <= 0) this.channels = null;
+  }
+}
+
+/**
+ * Channel data played like a started AudioBufferSourceNode: frame `offset` of the source sounds at
+ * session frame `start`. The source may be built on first read, so long sessions can make their
+ * parts just in time, and it is let go once played.
+ */
+export class BufferVoice implements Voice {
+  readonly end: number;
+  private channels: Float32Array[] | null = null;
+
+  constructor(
+    readonly gain: GainEnvelope,
+    readonly start: number,
+    private readonly offset: number,
+    length: number,
+    private source: Float32Array[] | (() => Float32Array[]) | SharedSource
+  ) {
+    this.end = start + length;
+    if (source instanceof SharedSource) source.attach();
+  }
+
+  read(from: number, frames: number): Float32Array[] {
+    this.channels ??= this.source instanceof SharedSource ? this.source.get() : typeof this.source === 'function' ? this.source() : this.source;
+    const at = this.offset + from - this.start;
+    return this.channels.map(c => c.subarray(at, at + frames));
+  }
+
+  release() {
+    if (this.source instanceof SharedSource) this.source.detach();
+    this.channels = null;
+    this.source = [];
+  }
+}
+
+/** A generator played from session frame `start` to `end`, pulled block by block as the mix advances. */
+export class StreamVoice implements Voice {
+  constructor(
+    readonly gain: GainEnvelope,
+    readonly start: number,
+    readonly end: number,
+    private readonly next: (frames: number) => Float32Array[]
+  ) {}
+
+  read(_from: number, frames: number): Float32Array[] {
+    return this.next(frames);
+  }
+}
+
+// One layer: its voices summed, then its fade window and pan applied
+export interface MixBus {
+  // 1 or 2; a mono bus pans with the mono law, as a StereoPannerNode does with mono input
+  channels: number;
+  pan: number;
+  window: GainEnvelope;
+  voices: Voice[];
+}
+
+interface BusState {
+  bus: MixBus;
+  // Voices not yet started, latest first, and those sounding now
+  pending: Voice[];
+  active: Voice[];
+  // StereoPanner gains: left out = l * ll + r * rl, right out = l * lr + r * rr
+  pan: [number, number, number, number];
+}
+
+/**
+ * Mixes buses to stereo one block at a time, as the Web Audio graph the engine used to build did:
+ * each voice through its gain into its bus, the bus through its window gain and an equal-power
+ * stereo panner, and everything through the master gain. Blocks must be rendered in order; each
+ * touches only the voices sounding in it and releases the ones that have finished.
+ */
+export class SessionMixer {
+  private readonly buses: BusState[];
+
+  constructor(buses: MixBus[], private readonly sampleRate: number, private readonly masterGain: number) {
+    this.buses = buses.map(bus => ({
+      bus,
+      pending: [...bus.voices].sort((a, b) => b.start - a.start),
+      active: [],
+      pan: SessionMixer.panGains(bus.pan, bus.channels)
+    }));
+  }
+
+  render(from: number, frames: number): Float32Array[] {
+    const to = from + frames;
+    const out = [new Float32Array(frames), new Float32Array(frames)];
+
+    for (const state of this.buses) {
+      const { bus, pending } = state;
+      while (pending.length && pending[pending.length - 1].start < to) state.active.push(pending.pop()!);
+
+      const sum = Array.from({ length: bus.channels }, () => new Float32Array(frames));
+      let sounding = false;
+      for (const voice of state.active) {
+        const a = Math.max(from, voice.start);
+        const b = Math.min(to, voice.end);
+        if (b <= a) continue;
+        sounding = true;
+        const data = voice.read(a, b - a);
+        const gain = voice.gain.values(a, b - a, this.sampleRate);
+        for (let ch = 0; ch < bus.channels; ch++) {
+          // Mono voices on a stereo bus feed both sides
+          const src = data[Math.min(ch, data.length - 1)];
+          const dst = sum[ch].subarray(a - from);
+          if (typeof gain === 'number') {
+            if (gain !== 0) for (let i = 0; i < src.length; i++) dst[i] += src[i] * gain;
+          } else {
+            for (let i = 0; i < src.length; i++) dst[i] += src[i] * gain[i];
+          }
+        }
+      }
+      state.active = state.active.filter(v => {
+        if (v.end > to) return true;
+        v.release?.();
+        return false;
+      });
+      if (sounding) this.addBus(state, sum, from, out);
+    }
+    return out;
+  }
+
+  private addBus(state: BusState, sum: Float32Array[], from: number, out: Float32Array[]) {
+    const window = state.bus.window.values(from, sum[0].length, this.sampleRate);
+    const [ll, rl, lr, rr] = state.pan;
+    const [left, right] = out;
+    const l = sum[0];
+    const r = sum[1] ?? sum[0];
+    for (let i = 0; i < l.length; i++) {
+      const g = (typeof window === 'number' ? window : window[i]) * this.masterGain;
+      left[i] += (l[i] * ll + r[i] * rl) * g;
+      right[i] += (l[i] * lr + r[i] * rr) * g;
+    }
+  }
+
+  /** The Web Audio StereoPannerNode's equal-power law for mono or stereo input. */
+  private static panGains(pan: number, channels: number): [number, number, number, number] {
+    if (channels === 1) {
+      const x = ((pan + 1) / 2) * (Math.PI / 2);
+      return [Math.cos(x), 0, Math.sin(x), 0];
+    }
+    if (pan <= 0) {
+      const x = (pan + 1) * (Math.PI / 2);
+      return [1, Math.cos(x), 0, Math.sin(x)];
+    }
+    const x = pan * (Math.PI / 2);
+    return [Math.cos(x), 0, Math.sin(x), 1];
+  }
+}
@@ -0,0 +1,634 @@
+
+import { LoopBoundaries, LoudnessReport, MixDescription, MixLayer, ProcessingOptions, RenderStage, SessionTrack, StretchAlgorithm, TempoPoint } from '../types';
+import { EngineCore } from './engineCore';
+import { LoopFinder } from './loopFinder';
+import { TimeStretcher } from './timeStretch';
+import { PitchShifter } from './pitchShifter';
+import { Resampler } from './resampler';
+import { Program, TimeWarp } from './program';
+import { ToneStream } from './toneGenerator';
+import { NoiseStream } from './noiseGenerator';
+import { Random } from './random';
+import { TempoMap } from './tempoMap';
+import { LoudnessMeter } from './loudness';
+import { TruePeakLimiter } from './limiter';
+import { BufferVoice, FadeShape, GainEnvelope, MixBus, SessionMixer, SharedSource, StreamVoice, Voice } from './sessionMixer';
+import { Crossfade, Splice, SpliceCorrelation } from './crossfade';
+
+export interface SessionOutput {
+  mimeType: string;
+  loudness: LoudnessReport;
+  // The file's opening bytes as they stand once everything is written (see `OutputEncoder.header`)
+  header: Uint8Array<ArrayBuffer>;
+}
+
+// A slice of the music source placed on the content timeline; gains are [content time, 0-1] points,
+// each with the shape of the ramp arriving at it (linear when unset)
+interface MusicSegment {
+  start: number;
+  offset: number;
+  duration: number;
+  gains: [number, number, FadeShape?][];
+}
+
+// The three transitions of an intro / loop / outro layout
+interface MusicFades {
+  intro: Splice;
+  loop: Splice;
+  outro: Splice;
+}
+
+// A playlist track as it will sound: conformed to the session tempo, pitch and rate (built on demand)
+interface PlaylistEntry {
+  source: () => Float32Array[];
+  channels: number;
+  // Seconds, bounds and downbeats as conformed
+  duration: number;
+  bounds: LoopBoundaries;
+  downbeats: number[];
+  // Zero when the track has no beat grid
+  bar: number;
+  fades: MusicFades;
+  // Loudness-matching gain
+  gain: number;
+}
+
+// Frames mixed, mastered and encoded at a time: memory follows this and the tracks, not the session
+const RENDER_BLOCK = 65536;
+const DEFAULT_MASTER_GAIN = 0.89;
+// Furthest a playlist track's level is moved to match the others
+const MAX_MATCH_DB = 12;
+
+/**
+ * Renders a mix description to an encoded file in bounded memory. Each layer is prepared once
+ * (boundaries, tempo flattening, stretching, pitch shifting, resampling to the output rate) and laid
+ * out as voices on the timeline; the session is then mixed, limited and encoded RENDER_BLOCK frames at
+ * a time, and each block's bytes go to `write` as soon as they exist. The render waits on what `write`
+ * returns, so a slow sink holds it back rather than letting bytes pile up. A loudness target needs the
+ * whole mix's loudness before the first frame can be written, so it costs a measuring pass over the
+ * mix first, in which program segments and playlist tracks are stretched as well rather than kept.
+ */
+export class SessionRenderer {
+  /**
+   * The classic two-layer session as a mix description: a looping focus bed under a tempo-synced
+   * music track with intro, loop and outro, over the tracks keyed `focus` and `music`. Given more than
+   * one music key, the music layer plays through them as a playlist, its manual settings applying to
+   * the first.
+   */
+  static pairMix(o: ProcessingOptions, musicTrackIds = ['music']): MixDescription {
+    const playlist = musicTrackIds.length > 1 ? { trackIds: musicTrackIds, shuffle: o.shufflePlaylist } : undefined;
+    return {
+      layers: [
+        { id: 'focus', trackId: 'focus', gainDb: o.focusVolumeDb, loopMode: 'loop' },
+        { id: 'music', trackId: musicTrackIds[0], gainDb: o.musicVolumeDb, loopMode: 'sections', tempoSync: true, sourceBpm: o.sourceBpmOverride, boundaries: o.manualBoundaries, playlist }
+      ]
+    };
+  }
+
+  /**
+   * Layers name their audio by `trackId`, resolved against `tracks`; duration, crossfade, tempo,
+   * program, tuning and export settings come from `o`, whose per-track volume and boundary fields are
+   * ignored here. Progress is reported per stage.
+   */
+  static async render(
+    tracks: Record<string, SessionTrack>,
+    mix: MixDescription,
+    o: ProcessingOptions,
+    write: (bytes: Uint8Array<ArrayBuffer>) => void | Promise<void>,
+    onProgress?: (stage: RenderStage, fraction: number) => void
+  ): Promise<SessionOutput> {
+    const tDur = o.targetDurationMinutes * 60;
+    const anySolo = mix.layers.some(l => l.solo && !l.mute);
+    const layers = mix.layers.filter(l => !l.mute && (!anySolo || l.solo));
+    const layerTracks = (layer: MixLayer) => layer.playlist ? layer.playlist.trackIds : layer.trackId ? [layer.trackId] : [];
+    for (const layer of layers) {
+      if (layer.noise) continue;
+      if (!layerTracks(layer).length) throw new Error(`Mix layer "${layer.id}" has no track or generator`);
+      for (const id of layerTracks(layer)) if (!tracks[id]) throw new Error(`Mix layer "${layer.id}" references unknown track "${id}"`);
+    }
+    // Generators render at whatever rate the tracks use
+    const trackRates = layers.filter(l => !l.noise).flatMap(l => layerTracks(l).map(id => tracks[id].sampleRate));
+    const sr = trackRates.length ? Math.max(...trackRates) : 48000;
+    const length = Math.floor(tDur * sr);
+    const masterGain = mix.masterGainDb === undefined ? DEFAULT_MASTER_GAIN : Math.pow(10, mix.masterGainDb / 20);
+    onProgress?.('preparing', 0);
+
+    const buses: (() => MixBus[])[] = [];
+    for (const [i, layer] of layers.entries()) {
+      const bus = this.prepareLayer(tracks, layer, o, sr, f => onProgress?.('preparing', (i + f) / layers.length));
+      if (bus) buses.push(bus);
+      onProgress?.('preparing', (i + 1) / layers.length);
+    }
+    // Voices hold stream and cache state, so every pass gets its own
+    const session = () => new SessionMixer(buses.flatMap(bus => bus()), sr, masterGain);
+
+    const input = new LoudnessMeter(2, sr);
+    const normalise = o.targetLufs !== undefined;
+    if (normalise) {
+      const mixer = session();
+      for (let from = 0; from < length; from += RENDER_BLOCK) {
+        input.push(mixer.render(from, Math.min(RENDER_BLOCK, length - from)));
+        onProgress?.('measuring', (from + RENDER_BLOCK) / length);
+      }
+    }
+    const measuredLufs = input.integrated();
+    const gainDb = normalise && isFinite(measuredLufs) ? o.targetLufs! - measuredLufs : 0;
+    const gain = Math.pow(10, gainDb / 20);
+
+    const mixer = session();
+    const encoder = await EngineCore.outputEncoder(2, sr, length, o);
+    const limiter = new TruePeakLimiter(2, sr, o.truePeakCeilingDb ?? -1);
+    const output = new LoudnessMeter(2, sr);
+    await write(encoder.header());
+
+    // The limiter runs `latency` frames behind, so its first frames are dropped and it is flushed at the end
+    let written = -limiter.latency;
+    const place = async (block: Float32Array[]) => {
+      const skip = Math.max(0, -written);
+      const count = Math.min(block[0].length, length - written) - skip;
+      if (count > 0) {
+        const valid = block.map(b => b.subarray(skip, skip + count));
+        output.push(valid);
+        await write(encoder.encode(valid));
+      }
+      written += block[0].length;
+    };
+
+    for (let from = 0; from < length; from += RENDER_BLOCK) {
+      const block = mixer.render(from, Math.min(RENDER_BLOCK, length - from));
+      if (!normalise) input.push(block);
+      await place(limiter.process(gain === 1 ? block : block.map(c => c.map(x => x * gain))));
+      onProgress?.('rendering', (from + RENDER_BLOCK) / length);
+    }
+    await place(limiter.process([new Float32Array(limiter.latency), new Float32Array(limiter.latency)]));
+    await write(encoder.finish());
+
+    return {
+      mimeType: encoder.mimeType,
+      header: encoder.header(),
+      loudness: {
+        inputLufs: normalise ? measuredLufs : input.integrated(),
+        gainDb,
+        limiterReductionDb: limiter.maxReductionDb,
+        integratedLufs: output.integrated(),
+        loudnessRange: output.loudnessRange(),
+        truePeakDbtp: output.truePeak()
+      }
+    };
+  }
+
+  /**
+   * Does one layer's stretching and pitch shifting, reporting 0–1 progress through them, and returns
+   * what lays the result out as buses of voices (one, but for a playlist's one per track); null when
+   * the layer is silent.
+   */
+  private static prepareLayer(tracks: Record<string, SessionTrack>, layer: MixLayer, o: ProcessingOptions, sampleRate: number, onProgress: (fraction: number) => void): (() => MixBus[]) | null {
+    const tDur = o.targetDurationMinutes * 60;
+    const start = Math.max(0, (layer.startMinutes ?? 0) * 60);
+    const end = Math.min(tDur, layer.endMinutes !== undefined ? layer.endMinutes * 60 : tDur);
+    if (end <= start) return null;
+    const dur = end - start;
+    const cf = o.crossfadeDuration;
+    const level = Math.pow(10, layer.gainDb / 20);
+    const sr = sampleRate;
+    const length = Math.floor(tDur * sr);
+
+    // Layers that begin or end mid-session fade across the crossfade time instead of cutting
+    const window = new GainEnvelope();
+    const edge = Math.min(cf, dur / 2);
+    if (start > 0) window.set(0, start).ramp(1, start + edge);
+    if (end < tDur) window.set(1, end - edge).ramp(0, end);
+    const pan = Math.max(-1, Math.min(1, layer.pan ?? 0));
+    const bus = (channels: number, voices: () => Voice[]) => () => [{ channels: Math.min(2, channels), pan, window, voices: voices() }];
+
+    const noise = layer.noise;
+    if (noise) {
+      return bus(2, () => {
+        const stream = new NoiseStream(noise, sr, noise.seed ?? Random.seedFrom(layer.id));
+        return [this.streamVoice(frames => stream.next(frames), start, dur, level, sr, length)];
+      });
+    }
+    if (layer.playlist) {
+      if (layer.tempoSync && Program.curve(o.program, 'bpm')) throw new Error(`Mix layer "${layer.id}" is a playlist, which follows targetBpm but not a program tempo curve`);
+      return this.playlistBuses(tracks, layer, o, sr, start, end, onProgress);
+    }
+    const track = layer.trackId ? tracks[layer.trackId] : undefined;
+    if (!track) return null;
+    const { info } = track;
+
+    const tone = info.tone;
+    const beatAt = tone ? Program.curve(o.program, 'beatHz') : null;
+    if (tone && beatAt) {
+      return bus(2, () => {
+        const stream = new ToneStream(tone, sr, t => beatAt(start + t));
+        return [this.streamVoice(frames => stream.next(frames), start, dur, level, sr, length)];
+      });
+    }
+
+    // A tempo program replaces the static target: the music is stretched segment by segment while mixing
+    const bpmAt = layer.tempoSync ? Program.curve(o.program, 'bpm') : null;
+    // A drifting track is first flattened to one steady tempo: the target, or its median under a program
+    const tempoMap = layer.tempoSync && !layer.sourceBpm && (bpmAt || o.targetBpm) ? info.tempoMap : undefined;
+    const sBpm = layer.sourceBpm || (tempoMap ? (bpmAt ? TempoMap.median(tempoMap) : o.targetBpm) : info.bpmInfo?.corrected) || 120;
+    const rate = layer.tempoSync && !bpmAt && o.targetBpm ? o.targetBpm / sBpm : 1.0;
+
+    const pitchCents = this.pitchCents(layer, o);
+    const trackSr = track.sampleRate;
+    const trackDuration = track.channels[0].length / trackSr;
+
+    let origBounds: LoopBoundaries = layer.loopMode === 'loop'
+      ? { introEnd: 0, outroStart: trackDuration, detected: false }
+      : layer.boundaries
+        ? { ...layer.boundaries, detected: true }
+        : LoopFinder.refine(track.channels, trackSr, EngineCore.detectBoundaries(track.channels, trackSr, info.beatGrid), o.crossfades?.loop?.seconds ?? cf).boundaries;
+    if (tempoMap) {
+      const warp = EngineCore.tempoWarp(tempoMap, sBpm, trackDuration);
+      origBounds = this.warpBounds(origBounds, warp, warp.toOutput(trackDuration));
+    }
+
+    const channels = this.conform(track, tempoMap, sBpm, rate, pitchCents, o, sr, onProgress);
+    const seamless = info.seamlessLoop && !tempoMap && !this.stretches(rate, pitchCents);
+    const duration = channels[0].length / sr;
+    // Under a program the layout is in content time, which keeps the source tempo
+    const beat = layer.sourceBpm || tempoMap || info.bpmInfo ? 60 / (sBpm * rate) : undefined;
+    const fades = this.musicFades(o, beat, (outEnd, inEnd, seconds) => Crossfade.correlation(channels, sr, outEnd, inEnd, seconds));
+
+    if (bpmAt) {
+      const warp = EngineCore.programWarp({ program: o.program!, start, sourceBpm: sBpm, duration: dur });
+      const segments = this.planMusicSegments(duration, origBounds, warp.toContent(dur), fades);
+      return bus(channels.length, () => segments.flatMap(seg => this.segmentVoice(channels, sr, seg, warp, start, dur, level, o.stretchAlgorithm ?? 'wsola') ?? []));
+    }
+    if (layer.loopMode === 'sections') {
+      const segments = this.planMusicSegments(duration, this.scaleBounds(origBounds, rate), dur, fades);
+      return bus(channels.length, () => this.segmentClips(channels, channels[0].length, sr, segments, start, level));
+    }
+    const { loop } = fades;
+    return bus(channels.length, () => this.loopingVoices(channels, sr, start, dur, level, seamless ? 0 : loop.seconds, loop.shape(duration, loop.seconds)));
+  }
+
+  /**
+   * The session's loop, intro and outro transitions for one layer's audio, whose beats are `beat`
+   * seconds long when it has a tempo; `correlate` measures a splice for the automatic shape.
+   */
+  private static musicFades(o: ProcessingOptions, beat: number | undefined, correlate: SpliceCorrelation): MusicFades {
+    const settings = o.crossfades ?? {};
+    const cf = o.crossfadeDuration;
+    return {
+      intro: Crossfade.splice(settings.intro, cf, beat, correlate),
+      loop: Crossfade.splice(settings.loop, cf, beat, correlate),
+      outro: Crossfade.splice(settings.outro, cf, beat, correlate)
+    };
+  }
+
+  /** The music tuning options' pitch shift in cents, for layers that follow them. */
+  private static pitchCents(layer: MixLayer, o: ProcessingOptions): number {
+    return layer.tempoSync ? (o.pitchShiftCents || 0) + (o.retuneReferenceHz ? PitchShifter.retuneCents(o.retuneReferenceHz) : 0) : 0;
+  }
+
+  private static stretches(rate: number, pitchCents: number): boolean {
+    return Math.abs(pitchCents) > 0.5 || Math.abs(rate - 1.0) > 0.01;
+  }
+
+  /** Boundaries need to be adjusted for the new stretched duration. */
+  private static scaleBounds(bounds: LoopBoundaries, rate: number): LoopBoundaries {
+    return {
+      introEnd: bounds.introEnd / rate,
+      outroStart: bounds.outroStart / rate,
+      detected: bounds.detected,
+      barDuration: bounds.barDuration && bounds.barDuration / rate
+    };
+  }
+
+  /**
+   * A track's audio as a layer plays it: flattened against `tempoMap` to `sBpm` when one is given,
+   * stretched by `rate` and shifted by `pitchCents`, then resampled to the output rate.
+   */
+  private static conform(track: SessionTrack, tempoMap: TempoPoint[] | undefined, sBpm: number, rate: number, pitchCents: number, o: ProcessingOptions, sr: number, onProgress?: (fraction: number) => void): Float32Array[] {
+    const trackSr = track.sampleRate;
+    // Flattening and the fixed-rate stretch share the progress when both run
+    const stretches = this.stretches(rate, pitchCents);
+    const part = (from: number, to: number) => (f: number) => onProgress?.(from + (to - from) * f);
+    const algorithm = o.stretchAlgorithm ?? 'wsola';
+
+    let source = track.channels;
+    if (tempoMap) source = EngineCore.flattenTempo(track.channels, trackSr, tempoMap, sBpm, algorithm, part(0, stretches ? 0.5 : 1));
+
+    // If a tempo or pitch shift is requested, we must process the audio once
+    let channels = source;
+    if (Math.abs(pitchCents) > 0.5) {
+      channels = PitchShifter.shift(source, trackSr, pitchCents, { rate, preserveFormants: o.preserveFormants ?? true, onProgress: part(tempoMap ? 0.5 : 0, 1) });
+    } else if (Math.abs(rate - 1.0) > 0.01) {
+      channels = TimeStretcher.stretch(source, trackSr, rate, algorithm, { onProgress: part(tempoMap ? 0.5 : 0, 1) });
+    }
+
+    // From here on everything is at the output rate
+    if (trackSr !== sr) channels = Resampler.resampleTo(channels, Math.round((channels[0].length * sr) / trackSr));
+    return channels;
+  }
+
+  /**
+   * A playlist layer, one bus per track played. Every track is conformed to one tempo (the target, or
+   * else the first track's) and its gain matched to the tracks' mean loudness. They play in turn, each
+   * with its intro and outro; loops repeat only as far as the tracks together fall short of the layer,
+   * and a track that would run past its end is cut short on a bar, or left out when there is no room
+   * for its intro and outro. Each track hands over to the next with a crossfade that begins where the
+   * incoming track's first downbeat lands on a downbeat of the outgoing one. Tracks are conformed when
+   * the mix first reaches them and let go once played, so memory follows one or two tracks.
+   */
+  private static playlistBuses(tracks: Record<string, SessionTrack>, layer: MixLayer, o: ProcessingOptions, sr: number, start: number, end: number, onProgress: (fraction: number) => void): () => MixBus[] {
+    const tDur = o.targetDurationMinutes * 60;
+    const dur = end - start;
+    const cf = o.crossfadeDuration;
+    const level = Math.pow(10, layer.gainDb / 20);
+    const pan = Math.max(-1, Math.min(1, layer.pan ?? 0));
+    const { trackIds, shuffle, seed } = layer.playlist!;
+
+    const order = [...trackIds];
+    if (shuffle) {
+      const random = new Random(seed ?? Random.seedFrom(layer.id));
+      for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(random.next() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+    }
+
+    // Everything is measured up front; only the conforming waits for the mix
+    const ids = [...new Set(order)];
+    const firstInfo = tracks[order[0]].info;
+    const refBpm = o.targetBpm || (order[0] === layer.trackId && layer.sourceBpm) || firstInfo.bpmInfo?.corrected || 120;
+    const pitchCents = this.pitchCents(layer, o);
+    const prepared: Record<string, PlaylistEntry> = {};
+    const loudness: Record<string, number> = {};
+    for (const [i, id] of ids.entries()) {
+      const track = tracks[id];
+      const { info } = track;
+      const trackSr = track.sampleRate;
+      const trackDuration = track.channels[0].length / trackSr;
+      const own = id === layer.trackId ? layer : undefined;
+      const tempoMap = layer.tempoSync && o.targetBpm && !own?.sourceBpm ? info.tempoMap : undefined;
+      const sBpm = own?.sourceBpm || (tempoMap ? o.targetBpm : info.bpmInfo?.corrected) || 120;
+      const rate = layer.tempoSync ? refBpm / sBpm : 1.0;
+
+      let bounds: LoopBoundaries = own?.boundaries
+        ? { ...own.boundaries, detected: true }
+        : LoopFinder.refine(track.channels, trackSr, EngineCore.detectBoundaries(track.channels, trackSr, info.beatGrid), o.crossfades?.loop?.seconds ?? cf).boundaries;
+      let downbeats = info.beatGrid?.downbeats ?? [];
+      // Frames the conformed copy will have, following conform's steps
+      let frames = track.channels[0].length;
+      const warp = tempoMap && EngineCore.tempoWarp(tempoMap, sBpm, trackDuration);
+      if (warp) {
+        bounds = this.warpBounds(bounds, warp, warp.toOutput(trackDuration));
+        downbeats = downbeats.map(d => warp.toOutput(d));
+        frames = Math.round(warp.toOutput(trackDuration) * trackSr);
+      }
+      if (this.stretches(rate, pitchCents)) frames = Math.floor(frames / rate);
+      if (trackSr !== sr) frames = Math.round((frames * sr) / trackSr);
+
+      const meter = new LoudnessMeter(track.channels.length, trackSr);
+      for (let from = 0; from < track.channels[0].length; from += RENDER_BLOCK) meter.push(track.channels.map(c => c.subarray(from, from + RENDER_BLOCK)));
+      loudness[id] = meter.integrated();
+
+      // Splices are measured on the source, at the places the conformed positions came from
+      const toSource = (t: number) => warp ? warp.toContent(t * rate) : t * rate;
+      const correlate: SpliceCorrelation = (outEnd, inEnd, seconds) => Crossfade.correlation(track.channels, trackSr, toSource(outEnd), toSource(inEnd), seconds * rate);
+      const grid = info.beatGrid;
+      prepared[id] = {
+        source: () => this.conform(track, tempoMap, sBpm, rate, pitchCents, o, sr),
+        channels: track.channels.length,
+        duration: frames / sr,
+        bounds: this.scaleBounds(bounds, rate),
+        downbeats: downbeats.map(d => d / rate),
+        bar: grid?.downbeats.length ? (60 * grid.beatsPerBar) / (sBpm * rate) : 0,
+        fades: this.musicFades(o, own?.sourceBpm || tempoMap || info.bpmInfo ? 60 / (sBpm * rate) : undefined, correlate),
+        gain: 1
+      };
+      onProgress((i + 1) / ids.length);
+    }
+    const measured = ids.map(id => loudness[id]).filter(isFinite);
+    const meanLufs = measured.reduce((a, b) => a + b, 0) / measured.length;
+    for (const id of ids) {
+      if (!isFinite(loudness[id])) continue;
+      prepared[id].gain = Math.pow(10, Math.max(-MAX_MATCH_DB, Math.min(MAX_MATCH_DB, meanLufs - loudness[id])) / 20);
+    }
+
+    // Tracks played once through, overlapping by a crossfade, until they fill the layer
+    const entries: PlaylistEntry[] = [];
+    let total = cf;
+    for (const id of order) {
+      if (entries.length && total >= dur) break;
+      entries.push(prepared[id]);
+      total += prepared[id].duration - cf;
+    }
+    const last = entries[entries.length - 1];
+    const minimum = (e: PlaylistEntry) => e.bounds.introEnd + e.duration - e.bounds.outroStart;
+    if (entries.length > 1 && total > dur && dur - (total - last.duration) < minimum(last)) {
+      entries.pop();
+      total -= last.duration - cf;
+    }
+    // Time still to fill goes to the loops, shared by their length; the last track takes the remainder
+    const loopLength = (e: PlaylistEntry) => {
+      const loop = e.bounds.outroStart - e.bounds.introEnd;
+      return loop > e.fades.loop.seconds ? loop : 0;
+    };
+    const loops = entries.reduce((sum, e) => sum + loopLength(e), 0);
+    const extra = (e: PlaylistEntry) => total < dur && loops > 0 ? ((dur - total) * loopLength(e)) / loops : 0;
+
+    const placed: { entry: PlaylistEntry; at: number; until: number; segments: MusicSegment[] }[] = [];
+    let at = 0;
+    for (const [i, entry] of entries.entries()) {
+      const final = i === entries.length - 1;
+      const segments = this.planMusicSegments(entry.duration, entry.bounds, final ? dur - at : entry.duration + extra(entry), entry.fades);
+      const outro = segments[segments.length - 1];
+      const trackEnd = at + outro.start + outro.duration;
+      if (final) {
+        placed.push({ entry, at, until: dur, segments });
+        break;
+      }
+
+      // The next track starts a crossfade before this one ends, moved earlier so that its first
+      // downbeat falls on this one's bar grid, as followed from its last downbeat
+      const next = entries[i + 1];
+      let handover = trackEnd - cf;
+      const reference = segments.slice(-2).reverse().map(seg => {
+        const d = entry.downbeats.filter(x => x >= seg.offset && x < seg.offset + seg.duration).pop();
+        return d === undefined ? undefined : at + seg.start + d - seg.offset;
+      }).find(d => d !== undefined);
+      if (reference !== undefined && entry.bar > 0 && next.downbeats.length) {
+        const pickup = next.downbeats[0];
+        const aligned = reference + Math.floor((handover + pickup - reference) / entry.bar) * entry.bar - pickup;
+        if (aligned > at) handover = aligned;
+      }
+      placed.push({ entry, at, until: handover + cf, segments });
+      at = handover;
+    }
+
+    const handoverShape = Crossfade.shape('equal_power');
+    return () => placed.map(({ entry, at, until, segments }, i) => {
+      const t0 = start + at;
+      const stop = Math.round((start + until) * sr);
+      // Equal-power crossfades between tracks, which share nothing, and the layer's own fades at its ends
+      const window = new GainEnvelope();
+      if (i > 0) window.set(0, t0).ramp(1, t0 + cf, handoverShape);
+      else if (start > 0) window.set(0, start).ramp(1, start + Math.min(cf, dur / 2));
+      if (i < placed.length - 1) window.set(1, start + until - cf).ramp(0, start + until, handoverShape);
+      else if (end < tDur) window.set(1, end - Math.min(cf, dur / 2)).ramp(0, end);
+
+      const voices = this.segmentClips(new SharedSource(entry.source), Math.round(entry.duration * sr), sr, segments, t0, level * entry.gain, stop);
+      return { channels: Math.min(2, entry.channels), pan, window, voices };
+    });
+  }
+
+  /** Loop boundaries in source time moved to their place in a warped copy `duration` seconds long. */
+  private static warpBounds(bounds: LoopBoundaries, warp: TimeWarp, duration: number): LoopBoundaries {
+    const introEnd = Math.min(duration, warp.toOutput(bounds.introEnd));
+    const outroStart = Math.min(duration, warp.toOutput(bounds.outroStart));
+    const bars = bounds.barDuration ? Math.round((bounds.outroStart - bounds.introEnd) / bounds.barDuration) : 0;
+    return { introEnd, outroStart, detected: bounds.detected, barDuration: bars > 0 ? (outroStart - introEnd) / bars : undefined };
+  }
+
+  /**
+   * `channels` played the way an AudioBufferSourceNode started at `when` seconds plays them: from
+   * `offset` seconds into the source, for `duration` seconds or to its end, and cut at `stop`.
+   */
+  private static clip(channels: Float32Array[], sr: number, gain: GainEnvelope, when: number, offset = 0, duration = Infinity, stop = Infinity): Voice {
+    const start = Math.round(when * sr);
+    const from = Math.round(offset * sr);
+    let end = start + Math.max(0, Math.min(channels[0].length - from, Math.round(duration * sr)));
+    if (stop < Infinity) end = Math.min(end, Math.round(stop * sr));
+    return new BufferVoice(gain, start, from, end - start, channels);
+  }
+
+  /**
+   * A generated source (program tone, noise) from `t0` for `totalDur` seconds, pulled from `next`
+   * as the mix advances, so nothing ever loops.
+   */
+  private static streamVoice(next: (frames: number) => Float32Array[], t0: number, totalDur: number, targetVolume: number, sr: number, length: number): Voice {
+    const start = Math.round(t0 * sr);
+    const end = Math.min(length, Math.round((t0 + totalDur) * sr));
+    return new StreamVoice(new GainEnvelope().set(targetVolume, 0), start, end, next);
+  }
+
+  /**
+   * The intro / crossfaded loop / outro layout, laid out in content time (source seconds) so a tempo
+   * program can map each piece onto the session afterwards. Each of the three transitions takes its
+   * own length, and its shape for the source positions meeting at that splice.
+   */
+  private static planMusicSegments(bufferDur: number, bnd: LoopBoundaries, totalDur: number, fades: MusicFades): MusicSegment[] {
+    const { introEnd, outroStart: loopEnd } = bnd;
+    const loopDur = loopEnd - introEnd;
+    const outroDur = bufferDur - loopEnd;
+
+    // Repeats follow each other exactly one loop apart, so the crossfade overlaps the same musical
+    // position. The last one hands over to the outro early, on a bar line when known.
+    const pieces: [number, number][] = [];
+    let cur = introEnd;
+    const lET = totalDur - outroDur;
+    while (cur < lET && loopDur > fades.loop.seconds) {
+      const full = cur + loopDur;
+      const segmentEnd = full < lET ? full : bnd.barDuration ? cur + Math.floor((lET - cur) / bnd.barDuration) * bnd.barDuration : lET;
+      if (segmentEnd <= cur) break;
+      pieces.push([cur, segmentEnd]);
+      cur = segmentEnd;
+    }
+
+    // Each piece fades in over the splice that ended the one before and out over the next, shaped for
+    // where the outgoing and incoming sources stand at it; a first loop with no intro fades in linearly
+    const segments: MusicSegment[] = [];
+    let splice = pieces.length ? fades.intro : fades.outro;
+    let shape: FadeShape | undefined;
+
+    if (introEnd > 0) {
+      shape = splice.shape(introEnd, pieces.length ? introEnd : loopEnd);
+      segments.push({ start: 0, offset: 0, duration: introEnd, gains: [[0, 1], [introEnd - splice.seconds, 1], [introEnd, 0, shape]] });
+    }
+
+    for (const [i, [from, to]] of pieces.entries()) {
+      const start = from - splice.seconds;
+      const offset = Math.max(0, introEnd - splice.seconds);
+      const last = i === pieces.length - 1;
+      const next = last ? fades.outro : fades.loop;
+      const nextShape = next.shape(introEnd + to - from, last ? loopEnd : introEnd);
+      segments.push({ start, offset, duration: Math.min(loopEnd - offset, to - start), gains: [[start, 0], [from, 1, shape], [to - next.seconds, 1], [to, 0, nextShape]] });
+      splice = next;
+      shape = nextShape;
+    }
+
+    const outroOffset = Math.max(0, loopEnd - splice.seconds);
+    segments.push({ start: cur - splice.seconds, offset: outroOffset, duration: bufferDur - outroOffset, gains: [[cur - splice.seconds, 0], [cur, 1, shape]] });
+    return segments;
+  }
+
+  /** Planned segments played straight from `source` (`frames` long) from `t0`, cut at session frame `stop`. */
+  private static segmentClips(source: Float32Array[] | SharedSource, frames: number, sr: number, segments: MusicSegment[], t0: number, targetVolume: number, stop = Infinity): Voice[] {
+    return segments.flatMap(seg => {
+      const gain = new GainEnvelope();
+      // A point that keeps the level is a set, so the gain stays one number between fades
+      seg.gains.forEach(([t, g, shape], i) => {
+        if (i === 0 || g === seg.gains[i - 1][1]) gain.set(g * targetVolume, t0 + t);
+        else gain.ramp(g * targetVolume, t0 + t, shape);
+      });
+      const start = Math.round((t0 + seg.start) * sr);
+      const from = Math.round(seg.offset * sr);
+      const end = Math.min(stop, start + Math.max(0, Math.min(frames - from, Math.round(seg.duration * sr))));
+      return end > start ? [new BufferVoice(gain, start, from, end - start, source)] : [];
+    });
+  }
+
+  /** One program segment, stretched along the warp when the mix first reaches it. */
+  private static segmentVoice(channels: Float32Array[], sr: number, seg: MusicSegment, warp: TimeWarp, t0: number, totalDur: number, targetVolume: number, algorithm: StretchAlgorithm): Voice | null {
+    const skip = Math.max(0, -seg.start);
+    const start = seg.start + skip;
+    const tStart = warp.toOutput(start);
+    const tEnd = Math.min(totalDur, warp.toOutput(seg.start + seg.duration));
+    const from = Math.round((seg.offset + skip) * sr);
+    const to = Math.min(channels[0].length, Math.round((seg.offset + seg.duration) * sr));
+    const outLength = Math.round((tEnd - tStart) * sr);
+    if (outLength <= 0 || to <= from) return null;
+
+    const gain = new GainEnvelope();
+    seg.gains.forEach(([at, g, shape], i) => {
+      const t = t0 + warp.toOutput(at);
+      if (i === 0) gain.set(g * targetVolume, t);
+      else gain.ramp(g * targetVolume, t, shape);
+    });
+    const input = channels.map(c => c.subarray(from, to));
+    return new BufferVoice(gain, Math.round((t0 + tStart) * sr), 0, outLength, () => EngineCore.stretchSegment(input, sr, outLength, warp, tStart, start, algorithm));
+  }
+
+  private static loopingVoices(channels: Float32Array[], sr: number, t0: number, totalDur: number, targetVolume: number, fade: number, shape?: FadeShape): Voice[] {
+    const voices: Voice[] = [];
+    const dur = channels[0].length / sr;
+    if (dur <= 0) return voices;
+    // Each repeat must move the loop on, so a fade takes at most half the clip
+    const cf = Math.min(fade, dur / 2);
+    let cur = 0;
+
+    while (cur < totalDur) {
+      const g = new GainEnvelope();
+      if (cur === 0 || cf === 0) {
+        // Seamless clips butt-splice: each repeat starts exactly where the last one ended
+        g.set(targetVolume, t0 + cur);
+      } else {
+        g.set(0, t0 + cur).ramp(targetVolume, t0 + cur + cf, shape);
+      }
+
+      const segmentEnd = cur + dur;
+      const fadeOutStart = segmentEnd - cf;
+
+      if (cf === 0) {
+        // No fade needed; the source simply runs out at segmentEnd
+      } else if (segmentEnd < totalDur) {
+        g.set(targetVolume, t0 + fadeOutStart).ramp(0, t0 + segmentEnd, shape);
+      } else {
+        g.set(targetVolume, t0 + Math.min(fadeOutStart, totalDur));
+        if (totalDur > fadeOutStart) g.ramp(0, t0 + totalDur + cf);
+      }
+
+      voices.push(this.clip(channels, sr, g, t0 + cur, 0, Infinity, segmentEnd > totalDur ? t0 + totalDur : Infinity));
+
+      cur = cur + dur - cf;
+      if (cur >= totalDur) break;
+    }
+    return voices;
+  }
+}
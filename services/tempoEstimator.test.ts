@@ -0,0 +1,35 @@
+
+import { describe, expect, it } from 'vitest';
+import { OnsetDetector } from './onset';
+import { TempoEstimator } from './tempoEstimator';
+import { clickTrack } from './testSignals';
+
+const SR = 44100;
+// Known tempi across the 40–240 BPM range, including the slow and fast ends
+const TEMPI = [42, 50, 58, 72, 90, 120, 137, 150, 174, 190, 205, 215, 230, 238];
+// Relative tempo error allowed, and the least confidence a clean click track must earn
+const TOLERANCE = 0.005;
+const MIN_CONFIDENCE = 0.7;
+
+describe('TempoEstimator benchmark', () => {
+  for (const accent of [false, true]) {
+    it.each(TEMPI)(`finds %d BPM in a click track${accent ? ' with accented downbeats' : ''}`, bpm => {
+      const estimate = TempoEstimator.estimate(OnsetDetector.analyze([clickTrack(bpm, 30, SR, { accent })], SR));
+      expect(Math.abs(estimate.bpm / bpm - 1)).toBeLessThan(TOLERANCE);
+      expect(estimate.confidence).toBeGreaterThan(MIN_CONFIDENCE);
+    });
+  }
+});
+
+describe('TempoEstimator.consensus', () => {
+  it('folds octave slips onto the tempo most estimates agree on', () => {
+    const { bpm, support } = TempoEstimator.consensus([
+      { bpm: 128, confidence: 0.9 },
+      { bpm: 64, confidence: 0.5 },
+      { bpm: 127.8, confidence: 0.8 },
+      { bpm: 97, confidence: 0.2 }
+    ]);
+    expect(bpm).toBeCloseTo(127.96, 1);
+    expect(support).toBeCloseTo(2.2 / 2.4, 5);
+  });
+});
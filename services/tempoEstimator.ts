@@ -0,0 +1,194 @@
+
+import { OnsetEnvelope } from './onset';
+
+const MIN_BPM = 40;
+const MAX_BPM = 240;
+const GRID_BPM = 0.25;
+// Multiples of the beat period summed by the comb
+const HARMONICS = 4;
+// Listeners settle on tempi near this; the preference falls off as a Gaussian in octaves
+const PREFERRED_BPM = 120;
+const PREFERENCE_OCTAVES = 1.25;
+// Double the tempo when its comb is nearly as salient: every beat then has an equally strong onset between
+const DOUBLE_RATIO = 0.98;
+// Halve it when its comb falls this far short of the half tempo's: every other beat is then all but empty
+const HALVE_RATIO = 0.6;
+// Band estimates within this ratio of the result (after octave folding) count as agreeing
+const AGREEMENT = 0.02;
+const BAND_WEIGHTS = [1, 0.7, 0.5, 0.35, 0.25, 0.2];
+
+export interface TempoEstimate {
+  bpm: number;
+  // Other salient tempi, most salient first
+  candidates: number[];
+  bandBpms: number[];
+  // 0–1: periodicity of the onset function at `bpm`, scaled by how many bands agree on it
+  confidence: number;
+}
+
+/**
+ * Tempo from a multi-band onset envelope. The bands are summed, autocorrelated, and the
+ * autocorrelation is read through a comb over the first HARMONICS multiples of each candidate
+ * period, on a 0.25 BPM grid between 40 and 240 BPM with parabolic refinement of the peak. A comb
+ * scores the half tempo as highly as the true one, so octaves are settled by a log-Gaussian
+ * preference around 120 BPM, then by doubling when the double tempo's comb is as salient, or
+ * halving when the preferred tempo's comb misses every other beat.
+ */
+export class TempoEstimator {
+  static estimate(env: OnsetEnvelope): TempoEstimate {
+    const { bands, frameRate } = env;
+    const onset = new Float32Array(env.strength.length);
+    bands.forEach((band, b) => {
+      const w = BAND_WEIGHTS[b] ?? BAND_WEIGHTS[BAND_WEIGHTS.length - 1];
+      for (let i = 0; i < onset.length; i++) onset[i] += w * band[i];
+    });
+
+    const acf = this.autocorrelation(onset, frameRate);
+    const salience = this.tempogram(acf, frameRate);
+    const weighted = salience.map((s, i) => s * this.preference(this.bpmAt(i)));
+    let best = this.argmax(weighted);
+    const double = this.peakNear(salience, 2 * this.bpmAt(best));
+    const half = this.peakNear(salience, this.bpmAt(best) / 2);
+    if (double >= 0 && this.spanComb(acf, frameRate, this.bpmAt(double)) >= DOUBLE_RATIO * this.spanComb(acf, frameRate, this.bpmAt(best))) best = double;
+    else if (half >= 0 && this.spanComb(acf, frameRate, this.bpmAt(best)) < HALVE_RATIO * this.spanComb(acf, frameRate, this.bpmAt(half))) best = half;
+    const bpm = this.refine(salience, best);
+
+    const peaks: number[] = [];
+    for (let i = 1; i < salience.length - 1; i++) {
+      if (salience[i] > 0 && salience[i] >= salience[i - 1] && salience[i] > salience[i + 1]) peaks.push(i);
+    }
+    const candidates = peaks
+      .sort((a, b) => salience[b] - salience[a])
+      .map(i => this.refine(salience, i))
+      .filter(c => Math.abs(Math.log(c / bpm)) > 0.03)
+      .slice(0, 3);
+
+    const bandBpms = bands.map(band => {
+      const w = this.tempogram(this.autocorrelation(band, frameRate), frameRate).map((s, i) => s * this.preference(this.bpmAt(i)));
+      return this.refine(w, this.argmax(w));
+    });
+    const agreeing = bandBpms.filter(b => Math.abs(this.foldTo(b, bpm) / bpm - 1) < AGREEMENT).length;
+    const periodicity = Math.max(0, Math.min(1, salience[best]));
+
+    return {
+      bpm,
+      candidates,
+      bandBpms,
+      confidence: periodicity * (0.5 + (0.5 * agreeing) / (bandBpms.length || 1))
+    };
+  }
+
+  /**
+   * The tempo most estimates agree on (within AGREEMENT, after octave folding), each weighted by
+   * its confidence, and the share of the total confidence that agrees with it.
+   */
+  static consensus(estimates: { bpm: number; confidence: number }[]): { bpm: number; support: number } {
+    const total = estimates.reduce((a, e) => a + e.confidence, 0);
+    let best = { bpm: estimates[0]?.bpm ?? PREFERRED_BPM, support: 0 };
+    for (const candidate of estimates) {
+      let weight = 0, sum = 0;
+      for (const e of estimates) {
+        const folded = this.foldTo(e.bpm, candidate.bpm);
+        if (Math.abs(folded / candidate.bpm - 1) < AGREEMENT) {
+          weight += e.confidence;
+          sum += e.confidence * folded;
+        }
+      }
+      if (weight > best.support) best = { bpm: sum / weight, support: weight };
+    }
+    return { bpm: best.bpm, support: total > 0 ? best.support / total : 0 };
+  }
+
+  /** `bpm` moved by whole octaves to lie as close as possible to `target`. */
+  static foldTo(bpm: number, target: number): number {
+    return bpm * Math.pow(2, Math.round(Math.log2(target / bpm)));
+  }
+
+  /** Autocorrelation of the mean-removed onset function, out to HARMONICS periods of the slowest tempo. */
+  private static autocorrelation(onset: Float32Array, frameRate: number): Float64Array {
+    const n = onset.length;
+    const maxLag = Math.min(n - 1, Math.ceil(((60 * frameRate) / MIN_BPM) * HARMONICS) + 1);
+    const mean = onset.reduce((a, b) => a + b, 0) / (n || 1);
+    const x = onset.map(v => v - mean);
+
+    const acf = new Float64Array(Math.max(0, maxLag + 1));
+    for (let lag = 0; lag <= maxLag; lag++) {
+      let sum = 0;
+      for (let i = 0; i + lag < n; i++) sum += x[i] * x[i + lag];
+      acf[lag] = sum / (n - lag);
+    }
+    return acf;
+  }
+
+  /**
+   * Comb salience per grid tempo: the mean autocorrelation, normalised to 1 at lag 0, at the
+   * first HARMONICS multiples of the beat period (fractional lags are interpolated).
+   */
+  private static tempogram(acf: Float64Array, frameRate: number): Float64Array {
+    const maxLag = acf.length - 1;
+    const points = Math.round((MAX_BPM - MIN_BPM) / GRID_BPM) + 1;
+    const out = new Float64Array(points);
+    if (acf.length === 0 || acf[0] <= 0) return out;
+    for (let i = 0; i < points; i++) {
+      const period = (60 * frameRate) / this.bpmAt(i);
+      let sum = 0, count = 0;
+      for (let k = 1; k <= HARMONICS; k++) {
+        const lag = k * period;
+        const j = Math.floor(lag);
+        if (j + 1 > maxLag) break;
+        sum += acf[j] + (acf[j + 1] - acf[j]) * (lag - j);
+        count++;
+      }
+      out[i] = count ? sum / count / acf[0] : 0;
+    }
+    return out;
+  }
+
+  /**
+   * The comb at `bpm` with each multiple read as the sum of the lags either side of it. A period
+   * that falls between frames splits its autocorrelation peak across two lags, which interpolation
+   * would halve; this keeps it whole, so octaves are compared fairly whatever the frame grid.
+   */
+  private static spanComb(acf: Float64Array, frameRate: number, bpm: number): number {
+    const period = (60 * frameRate) / bpm;
+    let sum = 0;
+    for (let k = 1; k <= HARMONICS; k++) {
+      const j = Math.floor(k * period);
+      if (j + 1 >= acf.length) break;
+      sum += Math.max(0, acf[j]) + Math.max(0, acf[j + 1]);
+    }
+    return sum;
+  }
+
+  private static bpmAt(i: number): number {
+    return MIN_BPM + i * GRID_BPM;
+  }
+
+  private static preference(bpm: number): number {
+    return Math.exp(-0.5 * Math.pow(Math.log2(bpm / PREFERRED_BPM) / PREFERENCE_OCTAVES, 2));
+  }
+
+  /** Grid index of the highest point within two grid steps either side of `bpm`, or -1 outside the grid. */
+  private static peakNear(data: Float64Array, bpm: number): number {
+    const i = Math.round((bpm - MIN_BPM) / GRID_BPM);
+    if (i < 0 || i >= data.length) return -1;
+    let best = i;
+    for (let j = Math.max(0, i - 2); j <= Math.min(data.length - 1, i + 2); j++) if (data[j] > data[best]) best = j;
+    return best;
+  }
+
+  private static argmax(data: Float64Array): number {
+    let best = 0;
+    for (let i = 1; i < data.length; i++) if (data[i] > data[best]) best = i;
+    return best;
+  }
+
+  /** Grid peak `i` refined by parabolic interpolation, in BPM. */
+  private static refine(data: Float64Array, i: number): number {
+    if (i <= 0 || i >= data.length - 1) return this.bpmAt(i);
+    const a = data[i - 1], b = data[i], c = data[i + 1];
+    const denom = a - 2 * b + c;
+    const shift = denom < 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denom)) : 0;
+    return this.bpmAt(i + shift);
+  }
+}
@@ -0,0 +1,73 @@
+
+import { TempoPoint } from '../types';
+import { OnsetEnvelope } from './onset';
+
+const WINDOW_SECONDS = 8;
+const HOP_SECONDS = 1;
+// Local tempo is searched within this ratio of the global tempo, which keeps every window in the same octave
+const MAX_DEVIATION = 1.25;
+const SMOOTHING_POINTS = 5;
+
+/**
+ * Local tempo over time, for live or rubato recordings whose tempo drifts. Each window of the onset
+ * envelope is autocorrelated around the global beat period; the peak lag, refined between frames,
+ * gives that window's BPM, and a running median removes single-window octave slips and dropouts.
+ */
+export class TempoMap {
+  static analyze(env: OnsetEnvelope, globalBpm: number): TempoPoint[] {
+    const { strength, frameRate } = env;
+    const win = Math.round(WINDOW_SECONDS * frameRate);
+    const hop = Math.max(1, Math.round(HOP_SECONDS * frameRate));
+    const period = (60 / globalBpm) * frameRate;
+    const minLag = Math.max(1, Math.floor(period / MAX_DEVIATION));
+    const maxLag = Math.ceil(period * MAX_DEVIATION);
+    if (strength.length < win + maxLag) return [{ time: 0, bpm: globalBpm }];
+
+    const raw: TempoPoint[] = [];
+    const scores = new Float64Array(maxLag + 2);
+    for (let from = 0; from + win + maxLag <= strength.length; from += hop) {
+      for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+        let sum = 0;
+        for (let i = from; i < from + win; i++) sum += strength[i] * strength[i + lag];
+        scores[lag] = sum;
+      }
+      let best = minLag;
+      for (let lag = minLag + 1; lag <= maxLag; lag++) if (scores[lag] > scores[best]) best = lag;
+
+      // Windows with no periodicity (a break, a held chord) carry the previous tempo forward
+      const time = (from + (win + maxLag) / 2) / frameRate;
+      if (scores[best] <= 0) {
+        raw.push({ time, bpm: raw.length ? raw[raw.length - 1].bpm : globalBpm });
+        continue;
+      }
+      const a = scores[best - 1], b = scores[best], c = scores[best + 1];
+      const denom = a - 2 * b + c;
+      const lag = denom < 0 ? best + Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denom)) : best;
+      raw.push({ time, bpm: (60 * frameRate) / lag });
+    }
+
+    const half = Math.floor(SMOOTHING_POINTS / 2);
+    return raw.map((p, i) => {
+      const near = raw.slice(Math.max(0, i - half), i + half + 1).map(q => q.bpm).sort((x, y) => x - y);
+      return { time: p.time, bpm: Math.round(near[Math.floor(near.length / 2)] * 100) / 100 };
+    });
+  }
+
+  /** Tempo at `sec`, interpolated between points and held beyond the ends. */
+  static bpmAt(map: TempoPoint[], sec: number): number {
+    if (sec <= map[0].time) return map[0].bpm;
+    let lo = 0, hi = map.length - 1;
+    if (sec >= map[hi].time) return map[hi].bpm;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (map[mid].time <= sec) lo = mid; else hi = mid;
+    }
+    const x = (sec - map[lo].time) / (map[hi].time - map[lo].time);
+    return map[lo].bpm + (map[hi].bpm - map[lo].bpm) * x;
+  }
+
+  static median(map: TempoPoint[]): number {
+    const sorted = map.map(p => p.bpm).sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+  }
+}
@@ -0,0 +1,23 @@
+
+// Synthetic signals with known properties, for the DSP tests
+
+/**
+ * A mono click track at `bpm`: 30 ms kicks of decaying noise over a 60 Hz thump, the first at
+ * `start` seconds. With `accent`, every fourth kick (from the first) carries more bass, as a downbeat does.
+ */
+export const clickTrack = (bpm: number, seconds: number, sampleRate: number, { start = 0.1, accent = false } = {}): Float32Array => {
+  const x = new Float32Array(Math.round(seconds * sampleRate));
+  const period = 60 / bpm;
+  const length = Math.round(0.03 * sampleRate);
+  let seed = 1;
+  const noise = () => ((seed = (seed * 1664525 + 1013904223) >>> 0) / 2 ** 32) * 2 - 1;
+  for (let b = 0; start + b * period < seconds; b++) {
+    const at = Math.round((start + b * period) * sampleRate);
+    const bass = accent && b % 4 === 0 ? 0.6 : 0.2;
+    for (let i = 0; i < length && at + i < x.length; i++) {
+      const decay = Math.exp(-i / (0.006 * sampleRate));
+      x[at + i] += decay * (0.3 * noise() + bass * Math.sin((2 * Math.PI * 60 * i) / sampleRate));
+    }
+  }
+  return x;
+};
@@ -0,0 +1,118 @@
+
+import { describe, expect, it } from 'vitest';
+import { StretchAlgorithm } from '../types';
+import { TimeStretcher } from './timeStretch';
+
+const SR = 44100;
+const ALGORITHMS: StretchAlgorithm[] = ['wsola', 'phase_vocoder'];
+const RATES = [0.8, 1.25];
+
+const sine = (hz: number, seconds: number, phase = 0, amplitude = 0.5) =>
+  Float32Array.from({ length: Math.round(seconds * SR) }, (_, i) => amplitude * Math.sin((2 * Math.PI * hz * i) / SR + phase));
+
+// 5 ms bursts of a decaying 2 kHz tone, `interval` seconds apart, the first at `interval / 2`
+const clicks = (interval: number, seconds: number) => {
+  const x = new Float32Array(Math.round(seconds * SR));
+  const burst = Math.round(0.005 * SR);
+  for (let t = interval / 2; t < seconds; t += interval) {
+    const at = Math.round(t * SR);
+    for (let i = 0; i < burst && at + i < x.length; i++) x[at + i] = 0.8 * Math.exp(-i / (burst / 4)) * Math.sin((2 * Math.PI * 2000 * i) / SR);
+  }
+  return x;
+};
+
+// Amplitude and phase of `hz` in x[from, from + n), by correlation with a Hann-windowed complex tone
+const tone = (x: Float32Array, hz: number, from: number, n: number) => {
+  let re = 0, im = 0, w = 0;
+  for (let i = 0; i < n; i++) {
+    const win = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / n);
+    const a = (2 * Math.PI * hz * (from + i)) / SR;
+    re += win * x[from + i] * Math.cos(a);
+    im -= win * x[from + i] * Math.sin(a);
+    w += win;
+  }
+  return { amplitude: (2 * Math.hypot(re, im)) / w, phase: Math.atan2(im, re) };
+};
+
+// Frequency from the rate of positive-going zero crossings, interpolated between samples
+const frequency = (x: Float32Array, from: number, to: number) => {
+  const crossings: number[] = [];
+  for (let i = from + 1; i < to; i++) if (x[i - 1] < 0 && x[i] >= 0) crossings.push(i - 1 + -x[i - 1] / (x[i] - x[i - 1]));
+  return ((crossings.length - 1) * SR) / (crossings[crossings.length - 1] - crossings[0]);
+};
+
+const rms = (x: Float32Array, from: number, n: number) => {
+  let s = 0;
+  for (let i = from; i < from + n; i++) s += x[i] * x[i];
+  return Math.sqrt(s / n);
+};
+
+// Onset times where |x| first rises past `threshold`, each followed by `gap` seconds of dead time
+const onsets = (x: Float32Array, threshold: number, gap: number) => {
+  const found: number[] = [];
+  for (let i = 0; i < x.length; i++) {
+    if (Math.abs(x[i]) < threshold) continue;
+    found.push(i / SR);
+    i += Math.round(gap * SR);
+  }
+  return found;
+};
+
+const wrap = (phase: number) => phase - 2 * Math.PI * Math.round(phase / (2 * Math.PI));
+
+describe('TimeStretcher', () => {
+  for (const algorithm of ALGORITHMS) {
+    for (const rate of RATES) {
+      describe(`${algorithm} at rate ${rate}`, () => {
+        it('keeps a sine at its frequency with a flat gain', () => {
+          const input = sine(440, 3);
+          const [out] = TimeStretcher.stretch([input], SR, rate, algorithm);
+          expect(out.length).toBe(Math.floor(input.length / rate));
+
+          // Away from the edges, where the first and last grains have nothing to overlap
+          const from = Math.round(0.2 * SR), to = out.length - Math.round(0.2 * SR);
+          expect(frequency(out, from, to)).toBeCloseTo(440, 0);
+
+          const block = Math.round(0.05 * SR);
+          const levels: number[] = [];
+          for (let i = from; i + block <= to; i += block) levels.push(rms(out, i, block));
+          const db = levels.map(l => 20 * Math.log10(l / (0.5 / Math.SQRT2)));
+          expect(Math.max(...db.map(Math.abs))).toBeLessThan(1);
+        });
+
+        it('keeps left and right in phase with each other', () => {
+          const offset = Math.PI / 3;
+          const [left, right] = TimeStretcher.stretch([sine(440, 3), sine(440, 3, offset, 0.3)], SR, rate, algorithm);
+          const n = Math.round(0.1 * SR);
+          for (let at = Math.round(0.3 * SR); at + n < left.length - 0.3 * SR; at += Math.round(0.37 * SR)) {
+            const l = tone(left, 440, at, n), r = tone(right, 440, at, n);
+            expect(Math.abs(wrap(r.phase - l.phase - offset))).toBeLessThan(0.05);
+            expect(r.amplitude / l.amplitude).toBeCloseTo(0.6, 1);
+          }
+        });
+
+        it('keeps click transients and scales their timing', () => {
+          const interval = 0.5;
+          const input = clicks(interval, 4);
+          const [out] = TimeStretcher.stretch([input], SR, rate, algorithm);
+          const expected = onsets(input, 0.2, interval / 2).map(t => t / rate).filter(t => t < out.length / SR - 0.05);
+          const found = onsets(out, 0.2, interval / (2 * rate));
+
+          expect(found.length).toBe(expected.length);
+          found.forEach((t, i) => expect(Math.abs(t - expected[i])).toBeLessThan(0.015));
+
+          // Each click stays a click: loud at its peak, with its energy gathered in a short span
+          for (const t of found) {
+            const at = Math.round(t * SR);
+            const near = rms(out, Math.max(0, at - Math.round(0.005 * SR)), Math.round(0.02 * SR)) ** 2 * 0.02;
+            const around = rms(out, Math.max(0, at - Math.round(0.1 * SR)), Math.round(0.2 * SR)) ** 2 * 0.2;
+            let peak = 0;
+            for (let i = at; i < at + Math.round(0.01 * SR); i++) peak = Math.max(peak, Math.abs(out[i]));
+            expect(peak).toBeGreaterThan(0.4);
+            expect(near / around).toBeGreaterThan(0.8);
+          }
+        });
+      });
+    }
+  }
+});
@@ -0,0 +1,368 @@
+
+import { StretchAlgorithm } from '../types';
+import { FFT } from './fft';
+
+/** Maps an output sample position to the (fractional) input sample it should be read from. */
+export type PositionMap = (outPos: number) => number;
+
+export interface StretchOptions {
+  /**
+   * Phase vocoder only: reshape each frame's spectral envelope as if it had been resampled by this
+   * factor. A pitch shifter that stretches by α and then resamples by α passes α here, so the
+   * resampling moves the harmonics but the formants land back where they started.
+   */
+  formantWarp?: number;
+  // Called with the fraction of the output written so far, about a hundred times per call
+  onProgress?: (fraction: number) => void;
+}
+
+const TWO_PI = 2 * Math.PI;
+
+const princarg = (phase: number) => phase - TWO_PI * Math.round(phase / TWO_PI);
+
+const periodicHann = (n: number) => {
+  const w = new Float64Array(n);
+  for (let i = 0; i < n; i++) w[i] = 0.5 - 0.5 * Math.cos((TWO_PI * i) / n);
+  return w;
+};
+
+/**
+ * Pitch-preserving time-stretch on raw channel data. Both algorithms derive a single alignment
+ * (WSOLA offset, or vocoder phase trajectory) from the channel sum and apply it to every channel,
+ * so the stereo image stays phase-coherent. Output is normalised by the accumulated window energy,
+ * which keeps the gain flat regardless of overlap.
+ */
+export class TimeStretcher {
+  /** `rate` > 1 shortens (speeds up), < 1 lengthens. */
+  static stretch(channels: Float32Array[], sampleRate: number, rate: number, algorithm: StretchAlgorithm = 'wsola', options: StretchOptions = {}): Float32Array[] {
+    const outLength = Math.floor(channels[0].length / rate);
+    return this.stretchWithMap(channels, sampleRate, outLength, outPos => outPos * rate, algorithm, options);
+  }
+
+  static stretchWithMap(channels: Float32Array[], sampleRate: number, outLength: number, positionAt: PositionMap, algorithm: StretchAlgorithm, options: StretchOptions = {}): Float32Array[] {
+    return algorithm === 'phase_vocoder'
+      ? this.phaseVocoder(channels, sampleRate, outLength, positionAt, options.formantWarp ?? 1, options.onProgress)
+      : this.wsola(channels, sampleRate, outLength, positionAt, options.onProgress);
+  }
+
+  /**
+   * Waveform-similarity overlap-add: each 50 ms grain is shifted by up to ±12 ms so that it lines up
+   * with the natural continuation of the previous grain, found by normalised cross-correlation
+   * (coarse search on a 4x decimated mono signal, then refined at full rate).
+   */
+  private static wsola(channels: Float32Array[], sampleRate: number, outLength: number, positionAt: PositionMap, onProgress?: (fraction: number) => void): Float32Array[] {
+    const inLength = channels[0].length;
+    const frame = Math.max(64, Math.round(sampleRate * 0.05) & ~1);
+    const hop = frame / 2;
+    const tolerance = Math.round(sampleRate * 0.012);
+    const decim = 4;
+    const window = periodicHann(frame);
+
+    const mono = new Float32Array(inLength);
+    for (const ch of channels) for (let i = 0; i < inLength; i++) mono[i] += ch[i] / channels.length;
+    const coarse = new Float32Array(Math.floor(inLength / decim));
+    for (let i = 0; i < coarse.length; i++) {
+      let s = 0;
+      for (let j = 0; j < decim; j++) s += mono[i * decim + j];
+      coarse[i] = s / decim;
+    }
+
+    const out = channels.map(() => new Float32Array(outLength));
+    const norm = new Float64Array(outLength);
+    const maxStart = Math.max(0, inLength - frame);
+    let prevStart = -1;
+    const report = this.reporter(outLength, onProgress);
+
+    for (let outPos = 0; outPos < outLength; outPos += hop) {
+      report(outPos);
+      const nominal = Math.round(positionAt(outPos));
+      let start = Math.max(0, Math.min(maxStart, nominal));
+
+      if (prevStart >= 0) {
+        const template = prevStart + hop;
+        if (template + hop <= inLength) {
+          const lo = Math.max(0, nominal - tolerance);
+          const hi = Math.min(maxStart, nominal + tolerance);
+          if (hi >= lo) start = this.bestAlignment(mono, coarse, decim, template, hop, lo, hi, start);
+        }
+      }
+
+      for (let c = 0; c < channels.length; c++) {
+        const src = channels[c];
+        const dst = out[c];
+        for (let i = 0; i < frame && outPos + i < outLength; i++) {
+          const idx = start + i;
+          if (idx < inLength) dst[outPos + i] += src[idx] * window[i];
+        }
+      }
+      for (let i = 0; i < frame && outPos + i < outLength; i++) norm[outPos + i] += window[i];
+      prevStart = start;
+    }
+
+    this.normalize(out, norm);
+    return out;
+  }
+
+  /**
+   * The start in [lo, hi] that best continues `template`. Only a positive correlation moves it off
+   * `nominal`, so silence keeps the grains on schedule and the next attack stays within reach.
+   */
+  private static bestAlignment(mono: Float32Array, coarse: Float32Array, decim: number, template: number, length: number, lo: number, hi: number, nominal: number): number {
+    const cLen = Math.floor(length / decim);
+    const cTemplate = Math.floor(template / decim);
+    let best = nominal;
+    let bestScore = 0;
+
+    if (cTemplate + cLen <= coarse.length) {
+      for (let c = Math.floor(lo / decim); c * decim <= hi; c++) {
+        if (c + cLen > coarse.length) break;
+        let dot = 0, energy = 1e-9;
+        for (let i = 0; i < cLen; i++) {
+          const v = coarse[c + i];
+          dot += coarse[cTemplate + i] * v;
+          energy += v * v;
+        }
+        const score = dot / Math.sqrt(energy);
+        if (score > bestScore) { bestScore = score; best = c * decim; }
+      }
+    }
+
+    // Refine around the coarse winner at full resolution
+    const from = Math.max(lo, best - decim);
+    const to = Math.min(hi, best + decim);
+    const refined = best;
+    bestScore = 0;
+    for (let s = from; s <= to; s++) {
+      if (s + length > mono.length) break;
+      let dot = 0, energy = 1e-9;
+      for (let i = 0; i < length; i++) {
+        const v = mono[s + i];
+        dot += mono[template + i] * v;
+        energy += v * v;
+      }
+      const score = dot / Math.sqrt(energy);
+      if (score > bestScore) { bestScore = score; best = s; }
+    }
+    return bestScore > 0 ? best : refined;
+  }
+
+  /**
+   * Phase vocoder with identity phase locking (Laroche & Dolson): spectral peaks of the channel sum
+   * get their phase advanced by their measured instantaneous frequency, and every bin in a peak's
+   * region of influence keeps its original phase offset to that peak. Frames whose spectral flux jumps
+   * sharply are treated as transients and have their phases reset to the analysis phases; the frames
+   * that still hold the attack then advance through the input at the synthesis hop, so it is rebuilt
+   * once, crisp, instead of smeared across the overlap, and the next frame rejoins `positionAt`.
+   * Channels are rotated by the sum's phase correction, which preserves inter-channel phase exactly.
+   */
+  private static phaseVocoder(channels: Float32Array[], sampleRate: number, outLength: number, positionAt: PositionMap, formantWarp: number, onProgress?: (fraction: number) => void): Float32Array[] {
+    const inLength = channels[0].length;
+    const n = FFT.nextPowerOfTwo(Math.round(sampleRate * 0.04));
+    const half = n / 2;
+    const hop = n / 4;
+    const bins = half + 1;
+    const fft = new FFT(n);
+    const window = periodicHann(n);
+    const numCh = channels.length;
+
+    const specRe = channels.map(() => new Float64Array(bins));
+    const specIm = channels.map(() => new Float64Array(bins));
+    const sumMag = new Float64Array(bins);
+    const sumPhase = new Float64Array(bins);
+    const prevMag = new Float64Array(bins);
+    const prevPhase = new Float64Array(bins);
+    const synPhase = new Float64Array(bins);
+    const prevSynPhase = new Float64Array(bins);
+    const rotRe = new Float64Array(bins);
+    const rotIm = new Float64Array(bins);
+    const re = new Float64Array(n);
+    const im = new Float64Array(n);
+    const peaks: number[] = [];
+    const warpFormants = Math.abs(formantWarp - 1) > 1e-6;
+    const envelope = new Float64Array(bins);
+    const cepRe = warpFormants ? new Float64Array(n) : re;
+    const cepIm = warpFormants ? new Float64Array(n) : im;
+    // Lifter cutoff ~1.5 ms of quefrency: smooth enough to ignore harmonics above ~100 Hz fundamentals
+    const lifter = Math.max(8, Math.round(sampleRate * 0.0015));
+
+    const out = channels.map(() => new Float32Array(outLength));
+    const norm = new Float64Array(outLength);
+    let prevCenter = 0;
+    let first = true;
+    // Frames left before the last transient has passed through the window
+    let held = 0;
+    const report = this.reporter(outLength, onProgress);
+
+    for (let outCenter = 0; outCenter - half < outLength; outCenter += hop) {
+      report(outCenter);
+      const inCenter = held > 0 ? prevCenter + hop : Math.round(positionAt(outCenter));
+
+      // Analysis: two real channels per complex FFT
+      for (let c = 0; c < numCh; c += 2) {
+        const a = channels[c];
+        const b = c + 1 < numCh ? channels[c + 1] : null;
+        for (let i = 0; i < n; i++) {
+          const idx = inCenter - half + i;
+          const inside = idx >= 0 && idx < inLength;
+          re[i] = inside ? a[idx] * window[i] : 0;
+          im[i] = inside && b ? b[idx] * window[i] : 0;
+        }
+        fft.forward(re, im);
+        for (let k = 0; k < bins; k++) {
+          const nk = (n - k) % n;
+          if (b) {
+            specRe[c][k] = (re[k] + re[nk]) / 2;
+            specIm[c][k] = (im[k] - im[nk]) / 2;
+            specRe[c + 1][k] = (im[k] + im[nk]) / 2;
+            specIm[c + 1][k] = -(re[k] - re[nk]) / 2;
+          } else {
+            specRe[c][k] = re[k];
+            specIm[c][k] = im[k];
+          }
+        }
+      }
+
+      let total = 0, flux = 0, prevTotal = 0, maxMag = 0;
+      for (let k = 0; k < bins; k++) {
+        let sr = 0, si = 0;
+        for (let c = 0; c < numCh; c++) { sr += specRe[c][k]; si += specIm[c][k]; }
+        const m = Math.hypot(sr, si);
+        sumMag[k] = m;
+        sumPhase[k] = Math.atan2(si, sr);
+        total += m;
+        prevTotal += prevMag[k];
+        flux += Math.max(0, m - prevMag[k]);
+        if (m > maxMag) maxMag = m;
+      }
+
+      const transient = !first && held === 0 && total > 1.5 * prevTotal && flux > 0.4 * total;
+      const ha = inCenter - prevCenter;
+
+      if (held > 0) held--;
+      if (transient) held = n / hop;
+      if (first || transient) {
+        synPhase.set(sumPhase);
+      } else if (ha === 0) {
+        // Input frame repeated (extreme slow-down): keep rotating at bin-centre frequency
+        for (let k = 0; k < bins; k++) synPhase[k] = prevSynPhase[k] + (TWO_PI * k * hop) / n;
+      } else {
+        peaks.length = 0;
+        const floor = maxMag * 1e-4;
+        for (let k = 2; k < bins - 2; k++) {
+          const m = sumMag[k];
+          if (m > floor && m > sumMag[k - 1] && m > sumMag[k - 2] && m >= sumMag[k + 1] && m >= sumMag[k + 2]) peaks.push(k);
+        }
+
+        const advance = (k: number) => {
+          const omega = (TWO_PI * k) / n;
+          const deviation = princarg(sumPhase[k] - prevPhase[k] - omega * ha);
+          return prevSynPhase[k] + (omega + deviation / ha) * hop;
+        };
+
+        if (peaks.length === 0) {
+          for (let k = 0; k < bins; k++) synPhase[k] = advance(k);
+        } else {
+          for (const peak of peaks) synPhase[peak] = advance(peak);
+          let p = 0;
+          for (let k = 0; k < bins; k++) {
+            // Nearest peak: bins up to the midpoint between two peaks belong to the lower one
+            while (p + 1 < peaks.length && k > (peaks[p] + peaks[p + 1]) / 2) p++;
+            const peak = peaks[p];
+            if (k !== peak) synPhase[k] = synPhase[peak] + (sumPhase[k] - sumPhase[peak]);
+          }
+        }
+      }
+
+      for (let k = 0; k < bins; k++) {
+        const delta = synPhase[k] - sumPhase[k];
+        rotRe[k] = Math.cos(delta);
+        rotIm[k] = Math.sin(delta);
+      }
+
+      if (warpFormants) {
+        this.cepstralEnvelope(sumMag, envelope, fft, cepRe, cepIm, lifter);
+        for (let k = 0; k < bins; k++) {
+          const src = Math.min(half, k * formantWarp);
+          const i0 = Math.floor(src);
+          const i1 = Math.min(half, i0 + 1);
+          const target = envelope[i0] + (envelope[i1] - envelope[i0]) * (src - i0);
+          // Bounded so near-silent bins can't be boosted into audible noise
+          const gain = Math.max(0.1, Math.min(10, target / envelope[k]));
+          rotRe[k] *= gain;
+          rotIm[k] *= gain;
+        }
+      }
+
+      // Synthesis: rotate each channel, pack pairs back into one complex IFFT
+      const outStart = outCenter - half;
+      for (let c = 0; c < numCh; c += 2) {
+        const hasB = c + 1 < numCh;
+        for (let k = 0; k < bins; k++) {
+          const ar = specRe[c][k] * rotRe[k] - specIm[c][k] * rotIm[k];
+          const ai = specRe[c][k] * rotIm[k] + specIm[c][k] * rotRe[k];
+          const br = hasB ? specRe[c + 1][k] * rotRe[k] - specIm[c + 1][k] * rotIm[k] : 0;
+          const bi = hasB ? specRe[c + 1][k] * rotIm[k] + specIm[c + 1][k] * rotRe[k] : 0;
+          re[k] = ar - bi;
+          im[k] = ai + br;
+          if (k > 0 && k < half) {
+            re[n - k] = ar + bi;
+            im[n - k] = br - ai;
+          }
+        }
+        fft.inverse(re, im);
+        for (let i = 0; i < n; i++) {
+          const o = outStart + i;
+          if (o < 0 || o >= outLength) continue;
+          out[c][o] += re[i] * window[i];
+          if (hasB) out[c + 1][o] += im[i] * window[i];
+        }
+      }
+      for (let i = 0; i < n; i++) {
+        const o = outStart + i;
+        if (o >= 0 && o < outLength) norm[o] += window[i] * window[i];
+      }
+
+      prevMag.set(sumMag);
+      prevPhase.set(sumPhase);
+      prevSynPhase.set(synPhase);
+      prevCenter = inCenter;
+      first = false;
+    }
+
+    this.normalize(out, norm);
+    return out;
+  }
+
+  /** Smoothed magnitude envelope via real cepstrum: log spectrum -> low-quefrency lifter -> back. */
+  private static cepstralEnvelope(mag: Float64Array, envelope: Float64Array, fft: FFT, re: Float64Array, im: Float64Array, lifter: number) {
+    const n = fft.size;
+    const half = n / 2;
+    for (let k = 0; k <= half; k++) {
+      re[k] = Math.log(mag[k] + 1e-9);
+      if (k > 0 && k < half) re[n - k] = re[k];
+    }
+    im.fill(0);
+    fft.inverse(re, im);
+    for (let q = lifter + 1; q < n - lifter; q++) re[q] = 0;
+    im.fill(0);
+    fft.forward(re, im);
+    for (let k = 0; k <= half; k++) envelope[k] = Math.exp(re[k]);
+  }
+
+  /** Position callback that forwards to `onProgress` each time another 1% of `length` is passed. */
+  private static reporter(length: number, onProgress?: (fraction: number) => void): (pos: number) => void {
+    if (!onProgress) return () => {};
+    let next = 0;
+    return pos => {
+      if (pos < next) return;
+      onProgress(Math.min(1, pos / length));
+      next = pos + length / 100;
+    };
+  }
+
+  private static normalize(out: Float32Array[], norm: Float64Array) {
+    for (const ch of out) {
+      for (let i = 0; i < ch.length; i++) if (norm[i] > 1e-6) ch[i] /= norm[i];
+    }
+  }
+}
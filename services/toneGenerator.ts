@@ -0,0 +1,125 @@
+
+import { EntrainmentAnalysis, ToneSettings } from '../types';
+import { EntrainmentAnalyzer } from './entrainment';
+
+const TWO_PI = 2 * Math.PI;
+
+// The beat frequency is re-read this often (in samples) while streaming a program
+const CONTROL_BLOCK = 128;
+
+/**
+ * Procedural focus tones. Every frequency is snapped to a whole number of cycles over the clip
+ * (a shift of at most 1/(2 * clip length) Hz), so a rendered clip loops with no phase discontinuity.
+ */
+export class ToneGenerator {
+  static render(settings: ToneSettings, sampleRate: number, durationSec: number): Float32Array[] {
+    const length = Math.round(durationSec * sampleRate);
+    const clipSec = length / sampleRate;
+    const snap = (hz: number) => Math.max(0, Math.round(hz * clipSec)) / clipSec;
+
+    const beatHz = snap(settings.beatHz);
+    // Binaural and monaural tones sit at carrier ± beat/2, so it is the lower tone that gets snapped
+    const carrierHz = settings.mode === 'isochronic'
+      ? snap(settings.carrierHz)
+      : snap(settings.carrierHz - settings.beatHz / 2) + beatHz / 2;
+    return new ToneStream({ ...settings, carrierHz, beatHz }, sampleRate).next(length);
+  }
+
+  /**
+   * Gain at `phase` (0-1) through one pulse period. `edge` is the square pulse's raised-cosine
+   * rise/fall time as a fraction of the period, which keeps the gating click-free.
+   */
+  static pulseEnvelope(phase: number, duty: number, shape: ToneSettings['pulseShape'], edge: number): number {
+    if (phase >= duty) return 0;
+    const x = phase / duty;
+    switch (shape) {
+      case 'sine':
+        return 0.5 - 0.5 * Math.cos(TWO_PI * x);
+      case 'triangle':
+        return 1 - Math.abs(2 * x - 1);
+      default: {
+        const ramp = Math.min(edge, duty / 2);
+        if (ramp <= 0) return 1;
+        if (phase < ramp) return 0.5 - 0.5 * Math.cos((Math.PI * phase) / ramp);
+        if (phase > duty - ramp) return 0.5 - 0.5 * Math.cos((Math.PI * (duty - phase)) / ramp);
+        return 1;
+      }
+    }
+  }
+
+  /** What `EntrainmentAnalyzer` would measure on a rendering of `settings`. */
+  static entrainment(settings: ToneSettings): EntrainmentAnalysis {
+    const { carrierHz, beatHz } = settings;
+    const band = EntrainmentAnalyzer.classify(beatHz);
+    if (settings.mode === 'binaural') return { carriersHz: [carrierHz - beatHz / 2, carrierHz + beatHz / 2], binauralHz: beatHz, band };
+    return { carriersHz: [carrierHz, carrierHz], modulationHz: beatHz, band };
+  }
+
+  static describe(settings: ToneSettings): string {
+    const label = { binaural: 'Binaural', isochronic: 'Isochronic', monaural: 'Monaural' }[settings.mode];
+    return `${label} ${settings.carrierHz} Hz / ${settings.beatHz} Hz`;
+  }
+}
+
+/**
+ * Phase-continuous tone source for rendering in consecutive blocks. The beat frequency may follow
+ * a program curve; oscillator phases are carried across blocks, so the glide has no seams.
+ */
+export class ToneStream {
+  private position = 0;
+  // Oscillator phases in cycles (0-1), which keeps precision over multi-hour sessions
+  private phaseA = 0;
+  private phaseB = 0;
+  private pulsePhase = 0;
+
+  constructor(
+    private readonly settings: ToneSettings,
+    private readonly sampleRate: number,
+    private readonly beatAt: (sec: number) => number = () => settings.beatHz
+  ) {}
+
+  next(frames: number): Float32Array[] {
+    const { mode, carrierHz } = this.settings;
+    const amp = Math.pow(10, (this.settings.amplitudeDb ?? -6) / 20);
+    const duty = Math.max(0.05, Math.min(0.95, this.settings.dutyCycle ?? 0.5));
+    const shape = this.settings.pulseShape ?? 'square';
+    const edgeSec = (this.settings.edgeMs ?? 5) / 1000;
+    const left = new Float32Array(frames);
+    const right = new Float32Array(frames);
+    const sr = this.sampleRate;
+
+    for (let blockStart = 0; blockStart < frames; blockStart += CONTROL_BLOCK) {
+      const blockEnd = Math.min(frames, blockStart + CONTROL_BLOCK);
+      const beat = Math.max(0, this.beatAt((this.position + blockStart) / sr));
+
+      if (mode === 'isochronic') {
+        const dc = carrierHz / sr;
+        const dp = beat / sr;
+        for (let i = blockStart; i < blockEnd; i++) {
+          const env = beat > 0 ? ToneGenerator.pulseEnvelope(this.pulsePhase, duty, shape, edgeSec * beat) : 1;
+          left[i] = right[i] = amp * env * Math.sin(TWO_PI * this.phaseA);
+          this.phaseA = (this.phaseA + dc) % 1;
+          this.pulsePhase = (this.pulsePhase + dp) % 1;
+        }
+        continue;
+      }
+
+      const da = (carrierHz - beat / 2) / sr;
+      const db = (carrierHz + beat / 2) / sr;
+      for (let i = blockStart; i < blockEnd; i++) {
+        const a = Math.sin(TWO_PI * this.phaseA);
+        const b = Math.sin(TWO_PI * this.phaseB);
+        if (mode === 'binaural') {
+          left[i] = amp * a;
+          right[i] = amp * b;
+        } else {
+          left[i] = right[i] = 0.5 * amp * (a + b);
+        }
+        this.phaseA = (this.phaseA + da) % 1;
+        this.phaseB = (this.phaseB + db) % 1;
+      }
+    }
+    this.position += frames;
+    return [left, right];
+  }
+}
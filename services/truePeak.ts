@@ -0,0 +1,61 @@
+
+// 4x oversampling, 12 taps per phase (the 48-tap interpolator ITU-R BS.1770 Annex 2 describes)
+const OVERSAMPLE = 4;
+const TAPS = 12;
+const HISTORY = TAPS - 1;
+
+const phaseTaps = (() => {
+  const phases: Float64Array[] = [];
+  for (let j = 1; j < OVERSAMPLE; j++) {
+    const taps = new Float64Array(TAPS);
+    let sum = 0;
+    for (let t = 0; t < TAPS; t++) {
+      // Tap t weights input sample m - 5 + t for a point j/4 of the way from m to m + 1
+      const d = t - (TAPS / 2 - 1) - j / OVERSAMPLE;
+      const x = d / (TAPS / 2);
+      const w = 0.42 + 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x);
+      taps[t] = (d === 0 ? 1 : Math.sin(Math.PI * d) / (Math.PI * d)) * w;
+      sum += taps[t];
+    }
+    for (let t = 0; t < TAPS; t++) taps[t] /= sum;
+    phases.push(taps);
+  }
+  return phases;
+})();
+
+/**
+ * Streaming inter-sample peak detector. For every input frame it reports the largest absolute
+ * value across all channels of the sample and the three interpolated points after it, `latency`
+ * frames late (the interpolator needs that much look-ahead).
+ */
+export class TruePeakDetector {
+  static readonly latency = TAPS / 2;
+  private readonly history: Float32Array[];
+
+  constructor(numChannels: number) {
+    this.history = Array.from({ length: numChannels }, () => new Float32Array(HISTORY));
+  }
+
+  process(block: Float32Array[]): Float32Array {
+    const length = block[0].length;
+    const peaks = new Float32Array(length);
+    for (let ch = 0; ch < block.length; ch++) {
+      const ext = new Float32Array(HISTORY + length);
+      ext.set(this.history[ch]);
+      ext.set(block[ch], HISTORY);
+      for (let i = 0; i < length; i++) {
+        // ext[i + HISTORY] is the newest sample; the reported frame sits TAPS/2 behind it
+        const base = i;
+        let peak = Math.abs(ext[base + TAPS / 2 - 1]);
+        for (const taps of phaseTaps) {
+          let y = 0;
+          for (let t = 0; t < TAPS; t++) y += taps[t] * ext[base + t];
+          if (Math.abs(y) > peak) peak = Math.abs(y);
+        }
+        if (peak > peaks[i]) peaks[i] = peak;
+      }
+      this.history[ch].set(ext.subarray(length));
+    }
+    return peaks;
+  }
+}
@@ -0,0 +1,74 @@
+
+import { DecodedAudio } from '../types';
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * RIFF/WAVE reader for 8 / 16 / 24 / 32-bit integer PCM and 32 / 64-bit float, including the
+ * WAVE_FORMAT_EXTENSIBLE variants of both and RF64 files. Integer samples are scaled by 2^(bits-1), the inverse of
+ * `WavEncoder`, so a file written there reads back exactly.
+ */
+export class WavDecoder {
+  static isWav(bytes: Uint8Array): boolean {
+    return bytes.length >= 12 && ['RIFF', 'RF64'].includes(this.tag(bytes, 0)) && this.tag(bytes, 8) === 'WAVE';
+  }
+
+  static decode(bytes: Uint8Array): DecodedAudio {
+    if (!this.isWav(bytes)) throw new Error('Not a RIFF/WAVE or RF64 file');
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let format: { tag: number; numChannels: number; sampleRate: number; bits: number } | null = null;
+
+    for (let pos = 12; pos + 8 <= bytes.length;) {
+      const id = this.tag(bytes, pos);
+      const size = view.getUint32(pos + 4, true);
+      const body = pos + 8;
+      if (id === 'fmt ') {
+        let tag = view.getUint16(body, true);
+        // The extensible format names the real one in the first two bytes of its SubFormat GUID
+        if (tag === WAVE_FORMAT_EXTENSIBLE && size >= 26) tag = view.getUint16(body + 24, true);
+        format = { tag, numChannels: view.getUint16(body + 2, true), sampleRate: view.getUint32(body + 4, true), bits: view.getUint16(body + 14, true) };
+      } else if (id === 'data') {
+        if (!format) throw new Error('WAV data chunk comes before its format');
+        // A streamed file may leave the size unset or running past the end, as RF64 marks it too
+        const end = Math.min(bytes.length, size === 0 || size === 0xffffffff ? bytes.length : body + size);
+        return this.samples(view, body, end, format);
+      }
+      // Chunks are word-aligned
+      pos = body + size + (size & 1);
+    }
+    throw new Error('WAV file has no data chunk');
+  }
+
+  private static samples(view: DataView, start: number, end: number, f: { tag: number; numChannels: number; sampleRate: number; bits: number }): DecodedAudio {
+    const { tag, numChannels, bits } = f;
+    const isFloat = tag === WAVE_FORMAT_IEEE_FLOAT;
+    if (!isFloat && tag !== WAVE_FORMAT_PCM) throw new Error(`Unsupported WAV format tag ${tag}`);
+    if (isFloat ? bits !== 32 && bits !== 64 : ![8, 16, 24, 32].includes(bits)) throw new Error(`Unsupported WAV bit depth: ${bits}`);
+
+    const bytesPerSample = bits / 8;
+    const frames = Math.floor((end - start) / (bytesPerSample * numChannels));
+    const channels = Array.from({ length: numChannels }, () => new Float32Array(frames));
+    const scale = 1 / Math.pow(2, bits - 1);
+    let offset = start;
+
+    for (let i = 0; i < frames; i++) {
+      for (let ch = 0; ch < numChannels; ch++) {
+        let v: number;
+        if (isFloat) v = bits === 32 ? view.getFloat32(offset, true) : view.getFloat64(offset, true);
+        else if (bits === 8) v = (view.getUint8(offset) - 128) * scale;
+        else if (bits === 16) v = view.getInt16(offset, true) * scale;
+        else if (bits === 24) v = ((view.getInt8(offset + 2) << 16) | view.getUint16(offset, true)) * scale;
+        else v = view.getInt32(offset, true) * scale;
+        channels[ch][i] = v;
+        offset += bytesPerSample;
+      }
+    }
+    return { channels, sampleRate: f.sampleRate };
+  }
+
+  private static tag(bytes: Uint8Array, pos: number): string {
+    return String.fromCharCode(bytes[pos], bytes[pos + 1], bytes[pos + 2], bytes[pos + 3]);
+  }
+}
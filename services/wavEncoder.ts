@@ -0,0 +1,96 @@
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+// Largest size a RIFF chunk field holds; longer files are written as RF64 (EBU Tech 3306)
+const MAX_RIFF_SIZE = 0xffffffff;
+
+/**
+ * RIFF/WAVE writer for integer PCM (16 / 24-bit) and 32-bit IEEE float masters. A file can also be
+ * written in pieces: `header` for a known frame count, then `pcmFrames` or `floatFrames` per block.
+ * Files past 4 GiB, as multi-hour float or 24-bit renders are, get an RF64 header whose ds64 chunk
+ * carries the 64-bit sizes.
+ */
+export class WavEncoder {
+  static encodePcm(channels: Int32Array[], sampleRate: number, bits: 16 | 24): Blob {
+    const header = this.header(channels.length, sampleRate, bits, channels[0].length);
+    return new Blob([header, this.pcmFrames(channels, bits)], { type: "audio/wav" });
+  }
+
+  /** Interleaved little-endian sample data for a block of integer frames. */
+  static pcmFrames(channels: Int32Array[], bits: 16 | 24): Uint8Array<ArrayBuffer> {
+    const bytesPerSample = bits / 8;
+    const numOfChan = channels.length;
+    const view = new DataView(new ArrayBuffer(channels[0].length * numOfChan * bytesPerSample));
+    let offset = 0;
+
+    for (let pos = 0; pos < channels[0].length; pos++) {
+      for (let i = 0; i < numOfChan; i++) {
+        const s = channels[i][pos];
+        if (bytesPerSample === 2) {
+          view.setInt16(offset, s, true);
+        } else {
+          view.setUint8(offset, s & 0xff);
+          view.setInt16(offset + 1, s >> 8, true);
+        }
+        offset += bytesPerSample;
+      }
+    }
+    return new Uint8Array(view.buffer);
+  }
+
+  /** Interleaved 32-bit float sample data for a block of frames. */
+  static floatFrames(channels: Float32Array[]): Uint8Array<ArrayBuffer> {
+    const numOfChan = channels.length;
+    const view = new DataView(new ArrayBuffer(channels[0].length * numOfChan * 4));
+    let offset = 0;
+
+    for (let pos = 0; pos < channels[0].length; pos++) {
+      for (let i = 0; i < numOfChan; i++) {
+        view.setFloat32(offset, channels[i][pos], true);
+        offset += 4;
+      }
+    }
+    return new Uint8Array(view.buffer);
+  }
+
+  /** Everything before the sample data of a file holding `frames` frames; 32 bits means float. */
+  static header(numOfChan: number, sampleRate: number, bits: 16 | 24 | 32, frames: number): Uint8Array<ArrayBuffer> {
+    const formatTag = bits === 32 ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM;
+    const blockAlign = numOfChan * (bits / 8);
+    const dataSize = frames * blockAlign;
+    const isFloat = formatTag === WAVE_FORMAT_IEEE_FLOAT;
+    // Non-PCM formats carry a cbSize field and a "fact" chunk with the frame count
+    const fmtSize = isFloat ? 18 : 16;
+    const riffHeaderSize = 12 + 8 + fmtSize + (isFloat ? 12 : 0) + 8;
+    const rf64 = riffHeaderSize + dataSize - 8 > MAX_RIFF_SIZE;
+    // RF64 adds a ds64 chunk with the real sizes, and marks the 32-bit fields it replaces as unset
+    const headerSize = riffHeaderSize + (rf64 ? 8 + 28 : 0);
+    const size32 = (d: number) => (rf64 ? MAX_RIFF_SIZE : d);
+
+    const view = new DataView(new ArrayBuffer(headerSize));
+    let offset = 0;
+    const set16 = (d: number) => { view.setUint16(offset, d, true); offset += 2; };
+    const set32 = (d: number) => { view.setUint32(offset, d, true); offset += 4; };
+    const set64 = (d: number) => { set32(d % 0x100000000); set32(Math.floor(d / 0x100000000)); };
+
+    set32(rf64 ? 0x34364652 : 0x46464952); // "RF64" or "RIFF"
+    set32(size32(headerSize + dataSize - 8));
+    set32(0x45564157); // "WAVE"
+    if (rf64) {
+      set32(0x34367364); // "ds64"
+      set32(28); set64(headerSize + dataSize - 8); set64(dataSize); set64(frames); set32(0);
+    }
+    set32(0x20746d66); // "fmt "
+    set32(fmtSize); set16(formatTag); set16(numOfChan); set32(sampleRate);
+    set32(sampleRate * blockAlign); set16(blockAlign); set16(bits);
+    if (isFloat) {
+      set16(0);
+      set32(0x74636166); // "fact"
+      set32(4); set32(Math.min(frames, MAX_RIFF_SIZE));
+    }
+    set32(0x61746164); // "data"
+    set32(size32(dataSize));
+
+    return new Uint8Array(view.buffer);
+  }
+}
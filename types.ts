@@ -1,6 +1,121 @@
 
-export type DetectionMode = 'fast' | 'accurate';
+// 'tempo_map' also estimates how the tempo changes over the track, see AudioMetadata.tempoMap
+export type DetectionMode = 'fast' | 'accurate' | 'tempo_map';
 export type ExportFormat = 'mp3_high' | 'mp3_standard' | 'wav_lossless' | 'flac_lossless';
+export type FlacCompressionLevel = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+// 32 means IEEE float; FLAC has no float mode and falls back to 24-bit
+export type BitDepth = 16 | 24 | 32;
+export type StretchAlgorithm = 'wsola' | 'phase_vocoder';
+export type ToneMode = 'binaural' | 'isochronic' | 'monaural';
+export type PulseShape = 'square' | 'sine' | 'triangle';
+export type NoiseColor = 'white' | 'pink' | 'brown' | 'grey';
+// How a program parameter travels from the previous keyframe to the next one
+export type RampCurve = 'linear' | 'exponential' | 'smooth' | 'hold';
+export type BrainwaveBand = 'delta' | 'theta' | 'alpha' | 'beta' | 'gamma';
+// Shape of a crossfade. 'auto' is equal-gain (linear) where the audio either side of the splice is
+// correlated enough to add like one signal, and equal-power where it is not; 'beat_synced' is
+// equal-power with its length rounded to whole beats of the music.
+export type CrossfadeCurve = 'auto' | 'linear' | 'equal_power' | 's_curve' | 'logarithmic' | 'beat_synced';
+
+export interface ToneSettings {
+  mode: ToneMode;
+  carrierHz: number;
+  beatHz: number;
+  // Isochronic only: fraction of each pulse period the tone is on, and how it rises and falls
+  dutyCycle?: number;
+  pulseShape?: PulseShape;
+  edgeMs?: number;
+  amplitudeDb?: number;
+}
+
+export interface NoiseSettings {
+  color: NoiseColor;
+  // Defaults to a hash of the layer id, so two noise layers never render identical streams
+  seed?: number;
+  // 0 = the same noise in both ears, 1 = independent left and right
+  decorrelation?: number;
+}
+
+// One point on a session program. A keyframe may set either parameter or both; each parameter is
+// interpolated only between the keyframes that set it and held flat before the first and after the last.
+export interface ProgramKeyframe {
+  timeMinutes: number;
+  // Focus beat frequency; only generated (tone) foundations can follow it
+  beatHz?: number;
+  // Music tempo, reached through variable-rate stretching
+  bpm?: number;
+  // Shape of the ramp arriving at this keyframe
+  curve?: RampCurve;
+}
+
+export interface BeatGrid {
+  bpm: number;
+  beatsPerBar: number;
+  // Seconds from the start of the track
+  beats: number[];
+  downbeats: number[];
+}
+
+export interface BpmWindow {
+  start: number;
+  duration: number;
+  bpm: number;
+  confidence: number;
+}
+
+export interface TempoPoint {
+  time: number;
+  bpm: number;
+}
+
+export interface MusicalKey {
+  // Pitch class of the tonic, 0 = C
+  tonic: number;
+  mode: 'major' | 'minor';
+  name: string;
+  // 0–1: how clearly the best key profile beats the runner-up
+  confidence: number;
+  // Reference A the track is tuned to, e.g. 432 or 440
+  tuningHz: number;
+  // Pitch-class energy from C to B, normalised to the strongest
+  chroma: number[];
+}
+
+export interface HarmonicCompatibility {
+  // 0–1: 1 is a tone exactly on the tonic
+  score: number;
+  // Nearest note to the tone, its scale degree in semitones above the tonic, and how far off it is
+  note: string;
+  degree: number;
+  centsOff: number;
+  // Total music pitch shift that puts the tone exactly on a scale note (the tonic, fifth, fourth or
+  // third when it is currently outside the scale)
+  suggestedShiftCents: number;
+}
+
+export interface EntrainmentAnalysis {
+  // Strongest tone in the left and right channel (the same value twice for mono files)
+  carriersHz?: [number, number];
+  // Left/right carrier difference, when it falls in the entrainment range
+  binauralHz?: number;
+  // Amplitude-modulation rate: isochronic pulses or a monaural beat
+  modulationHz?: number;
+  band?: BrainwaveBand;
+}
+
+export interface BpmInfo {
+  raw: number;
+  corrected: number;
+  candidates: number[];
+  stdDev: number;
+  confidence: 'high' | 'medium' | 'low';
+  algorithmsUsed: string[];
+  allPasses: number[];
+  filteredPasses: number[];
+  modeUsed: DetectionMode;
+  // Long files only: one estimate per analysis window, which the figures above aggregate
+  windows?: BpmWindow[];
+}
 
 export interface AudioMetadata {
   name: string;
@@ -8,26 +123,105 @@ export interface AudioMetadata {
   sampleRate: number;
   buffer: AudioBuffer;
   format: string;
-  bpmInfo?: {
-    raw: number;
-    corrected: number;
-    candidates: number[];
-    stdDev: number;
-    confidence: 'high' | 'medium' | 'low';
-    algorithmsUsed: string[];
-    allPasses: number[];
-    filteredPasses: number[];
-    modeUsed: DetectionMode;
-  };
+  // SHA-256 of the file the track was decoded from, in hex; recipes refer to tracks by it
+  sha256?: string;
+  bpmInfo?: BpmInfo;
+  beatGrid?: BeatGrid;
+  // Local tempo over time; tempo-synced layers with a target tempo are flattened against it
+  tempoMap?: TempoPoint[];
+  // Measured entrainment rate (binaural beat, else modulation rate) that pulseRate is built on
   frequency?: number;
+  entrainment?: EntrainmentAnalysis;
+  key?: MusicalKey;
   pulseRate?: number;
   divisorBpms?: number[];
+  // Set on procedurally generated layers: the clip is periodic, so repeats butt-splice without a crossfade
+  seamlessLoop?: boolean;
+  tone?: ToneSettings;
+}
+
+// Everything decodeFile measures on a track, as computed from its channel data
+export type TrackAnalysis = Pick<AudioMetadata, 'bpmInfo' | 'beatGrid' | 'tempoMap' | 'key' | 'entrainment' | 'frequency' | 'pulseRate' | 'divisorBpms'>;
+
+// A track's metadata without its decoded audio, which travels separately as channel data
+export type TrackInfo = Omit<AudioMetadata, 'buffer'>;
+
+// Audio as raw channel data, -1 to 1
+export interface DecodedAudio {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+// A track's decoded audio and what is known about it, as the session renderer takes it
+export interface SessionTrack extends DecodedAudio {
+  info: TrackInfo;
+}
+
+// 'loop' repeats the whole clip with crossfades; 'sections' plays the intro once, loops the body
+// between the boundaries and finishes on the outro
+export type LayerLoopMode = 'loop' | 'sections';
+
+// Tracks a music layer plays through one after another instead of looping a single one
+export interface PlaylistSettings {
+  // Keys into the track map, in playing order
+  trackIds: string[];
+  // Play them in an order drawn from `seed`, which defaults to a hash of the layer id
+  shuffle?: boolean;
+  seed?: number;
+}
+
+export interface MixLayer {
+  id: string;
+  // Key into the track map passed to AudioEngine.mix, which keeps the description plain JSON.
+  // Generated layers set `noise` instead and need no track.
+  trackId?: string;
+  noise?: NoiseSettings;
+  gainDb: number;
+  // -1 (left) to 1 (right)
+  pan?: number;
+  mute?: boolean;
+  solo?: boolean;
+  loopMode: LayerLoopMode;
+  startMinutes?: number;
+  endMinutes?: number;
+  // Follow the session tempo (targetBpm or a program bpm curve) and the music tuning options
+  tempoSync?: boolean;
+  sourceBpm?: number;
+  // In a playlist, these apply to the entry that is `trackId`; the others are detected
+  boundaries?: {
+    introEnd: number;
+    outroStart: number;
+    barDuration?: number;
+  };
+  // 'sections' layers only: see PlaylistSettings. Every track is stretched to one tempo and their
+  // gains matched by loudness.
+  playlist?: PlaylistSettings;
+}
+
+export interface MixDescription {
+  layers: MixLayer[];
+  masterGainDb?: number;
+}
+
+export interface CrossfadeSettings {
+  // Defaults to crossfadeDuration
+  seconds?: number;
+  // Defaults to 'auto'
+  curve?: CrossfadeCurve;
 }
 
 export interface LoopBoundaries {
   introEnd: number;
   outroStart: number;
   detected: boolean;
+  // Set when the loop has been snapped to the beat grid: the loop is a whole number of these
+  barDuration?: number;
+}
+
+export interface LoopMatch {
+  boundaries: LoopBoundaries;
+  // 0–1: how alike the audio either side of the splice is, spectrally and as a waveform
+  similarity: number;
 }
 
 export interface ProcessingOptions {
@@ -35,11 +229,91 @@ export interface ProcessingOptions {
   musicVolumeDb: number;
   focusVolumeDb: number;
   crossfadeDuration: number;
+  // Per transition: `loop` joins loop repeats (and whole-clip loops), `intro` hands the intro over to
+  // the loop and `outro` the loop over to the outro. Layer fades and playlist handovers keep
+  // crossfadeDuration.
+  crossfades?: {
+    loop?: CrossfadeSettings;
+    intro?: CrossfadeSettings;
+    outro?: CrossfadeSettings;
+  };
   exportFormat: ExportFormat;
+  flacCompressionLevel?: FlacCompressionLevel;
+  bitDepth?: BitDepth;
+  dither?: boolean;
+  noiseShaping?: boolean;
   targetBpm?: number;
+  // Time-varying beat frequency and tempo; a `bpm` curve here overrides targetBpm
+  program?: ProgramKeyframe[];
+  stretchAlgorithm?: StretchAlgorithm;
+  pitchShiftCents?: number;
+  // Concert-pitch reference for the music layer, e.g. 432 for A=432 Hz tuning
+  retuneReferenceHz?: number;
+  preserveFormants?: boolean;
   sourceBpmOverride?: number;
+  // Shuffles the music playlist of the focus/music pair, when it has more than one track
+  shufflePlaylist?: boolean;
+  // Integrated loudness to normalise the master to, e.g. -16 or -23; unset leaves the level alone
+  targetLufs?: number;
+  // True-peak limiter ceiling, default -1 dBTP
+  truePeakCeilingDb?: number;
   manualBoundaries?: {
     introEnd: number;
     outroStart: number;
+    barDuration?: number;
   };
 }
+
+export interface LoudnessReport {
+  // Integrated loudness of the raw mix, before normalisation
+  inputLufs: number;
+  gainDb: number;
+  // Deepest gain reduction the limiter applied (0 or negative)
+  limiterReductionDb: number;
+  integratedLufs: number;
+  loudnessRange: number;
+  truePeakDbtp: number;
+}
+
+// Phases of a render, in the order they run. `measuring` is a first pass over the mix that only
+// runs when the output is normalised to a loudness target; `rendering` mixes, masters and encodes.
+export type RenderStage = 'preparing' | 'measuring' | 'rendering';
+
+export interface RenderProgress {
+  stage: RenderStage;
+  // 0–1 through the current stage
+  stageProgress: number;
+  // 0–100 through the whole render, each stage weighted by its usual share of the time
+  overall: number;
+}
+
+export interface RenderResult {
+  // Unset when the render was written to a stream instead
+  blob?: Blob;
+  loudness: LoudnessReport;
+}
+
+// A recipe's input: a file, known by the hash of its bytes, or a generated focus tone
+export type RecipeTrack =
+  | {
+      // Unset only in recipes migrated from before tracks were hashed
+      sha256?: string;
+      name: string;
+      // Where to find the file, relative to the recipe; the CLI falls back to `name`
+      path?: string;
+    }
+  | { tone: ToneSettings };
+
+// A session as a file: its inputs and every option it renders with, so it can be saved, shared and
+// rendered again without the app. See `RecipeFormat`.
+export interface SessionRecipe {
+  version: number;
+  // Inputs by the key mix layers refer to
+  tracks: Record<string, RecipeTrack>;
+  options: ProcessingOptions;
+  // Defaults to the focus/music pair, over tracks keyed `focus` and `music`
+  mix?: MixDescription;
+  detectionMode?: DetectionMode;
+  // Where the CLI writes the file, relative to the recipe
+  output?: string;
+}